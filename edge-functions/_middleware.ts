@@ -0,0 +1,11 @@
+import type { FunctionContext } from '../src/lib/functions/types'
+import { withResponseHeaders } from '../src/lib/functions/wrappers'
+
+// Runs before every Edge function and tags the response, like node-functions/_middleware.ts
+export async function onRequest({ next }: FunctionContext) {
+  // Without next() this file was requested directly as /_middleware
+  if (!next) return new Response('Not Found', { status: 404 })
+
+  const response = await next()
+  return withResponseHeaders(response, { 'x-middleware': 'edge-functions/_middleware' })
+}
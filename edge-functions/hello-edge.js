@@ -1,12 +0,0 @@
-export default function onRequest(context) {
-  const {geo} = context;
-
-  return new Response(JSON.stringify({
-    message: 'Hello Edge!',
-    geo: geo,
-  }), {
-    headers: {
-      'Content-Type': 'application/json',
-    },
-  })
-}
\ No newline at end of file
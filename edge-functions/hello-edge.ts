@@ -0,0 +1,37 @@
+import type { FunctionContext } from '../src/lib/functions/types'
+import { parseJsonBody, schema } from '../src/lib/api/schema'
+import { handleFunctionPreflight, withEdgeCountry, withFunctionCors, withFunctionErrorHandling } from '../src/lib/functions/wrappers'
+
+// Only GET, POST and the CORS preflight are exported, any other method gets a 405 with an Allow header
+export const onRequestOptions = handleFunctionPreflight
+
+export const onRequestGet = withFunctionCors(withEdgeCountry(withFunctionErrorHandling((context: FunctionContext) => {
+  const { geo } = context
+
+  return new Response(JSON.stringify({
+    message: 'Hello Edge!',
+    geo: geo,
+  }), {
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  })
+})))
+
+const helloSchema = schema.object({
+  name: schema.optional(schema.string({ minLength: 1, maxLength: 100 }))
+})
+
+// Invalid bodies throw an ApiError, withFunctionErrorHandling turns it into the JSON error envelope
+export const onRequestPost = withFunctionCors(withEdgeCountry(withFunctionErrorHandling(async ({ request, geo }: FunctionContext) => {
+  const { name = 'Edge' } = await parseJsonBody(request, helloSchema)
+
+  return new Response(JSON.stringify({
+    message: `Hello ${name}!`,
+    geo: geo,
+  }), {
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  })
+})))
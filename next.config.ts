@@ -1,28 +1,28 @@
 import type { NextConfig } from "next";
+import { demos, type DemoDefinition } from "./src/lib/demos";
 
 const nextConfig: NextConfig = {
   trailingSlash: true,
+  env: {
+    // Lets the sitemap report when statically generated pages were last built
+    BUILD_TIME: new Date().toISOString()
+  },
   async headers() {
-    return [
-      {
-        source: '/ssr',
-        headers: [
-          {
-            key: 'Cache-Control',
-            value: 'public, max-age=3600, stale-while-revalidate, stale-if-error'
-          }
-        ]
-      },
-      {
-        source: '/isr',
-        headers: [
-          {
-            key: 'Cache-Control',
-            value: 'public, max-age=3600, stale-while-revalidate, stale-if-error'
-          }
-        ]
-      }
-    ]
+    return demos.flatMap(({ route, cachePolicy }: DemoDefinition) =>
+      cachePolicy.cacheControl
+        ? [
+            {
+              source: route,
+              headers: [
+                {
+                  key: 'Cache-Control',
+                  value: cachePolicy.cacheControl
+                }
+              ]
+            }
+          ]
+        : []
+    )
   }
 };
 
@@ -0,0 +1,12 @@
+import type { FunctionContext } from '../src/lib/functions/types'
+import { withResponseHeaders } from '../src/lib/functions/wrappers'
+
+// Runs before every Node function and tags the response. Errors, CORS and timings stay in the
+// per-handler wrappers, so they still apply where nothing calls this file (see FunctionContext.next).
+export async function onRequest({ next }: FunctionContext) {
+  // Without next() this file was requested directly as /_middleware
+  if (!next) return new Response('Not Found', { status: 404 })
+
+  const response = await next()
+  return withResponseHeaders(response, { 'x-middleware': 'node-functions/_middleware' })
+}
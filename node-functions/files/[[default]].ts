@@ -0,0 +1,11 @@
+import type { FunctionContext } from '../../src/lib/functions/types'
+import { echoRequest } from '../../src/lib/functions/request-echo'
+import { withFunctionDuration, withFunctionCors, withFunctionErrorHandling } from '../../src/lib/functions/wrappers'
+
+// [[default]] matches /files and every path below it, the captured segments end up in params.default
+export const onRequest = withFunctionCors(withFunctionDuration(withFunctionErrorHandling((context: FunctionContext) => {
+  const captured = context.params.default ?? []
+  const segments = (Array.isArray(captured) ? captured : captured.split('/')).filter(Boolean)
+
+  return echoRequest(context, '/files/[[default]]', { segments })
+})))
@@ -1,3 +0,0 @@
-export default function onRequest(context) {
-  return new Response('Hello Node!')
-}
\ No newline at end of file
@@ -0,0 +1,18 @@
+import type { FunctionContext } from '../src/lib/functions/types'
+import { parseJsonBody, schema } from '../src/lib/api/schema'
+import { handleFunctionPreflight, withFunctionDuration, withFunctionCors, withFunctionErrorHandling } from '../src/lib/functions/wrappers'
+
+// Only GET, POST and the CORS preflight are exported, any other method gets a 405 with an Allow header
+export const onRequestOptions = handleFunctionPreflight
+
+export const onRequestGet = withFunctionCors(withFunctionDuration(withFunctionErrorHandling(() => new Response('Hello Node!'))))
+
+const helloSchema = schema.object({
+  name: schema.optional(schema.string({ minLength: 1, maxLength: 100 }))
+})
+
+// Invalid bodies throw an ApiError, withFunctionErrorHandling turns it into the JSON error envelope
+export const onRequestPost = withFunctionCors(withFunctionDuration(withFunctionErrorHandling(async ({ request }: FunctionContext) => {
+  const { name = 'Node' } = await parseJsonBody(request, helloSchema)
+  return new Response(`Hello ${name}!`)
+})))
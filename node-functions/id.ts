@@ -0,0 +1,9 @@
+import type { FunctionContext } from '../src/lib/functions/types'
+import { echoRequest } from '../src/lib/functions/request-echo'
+import { withFunctionCors, withFunctionDuration, withFunctionErrorHandling } from '../src/lib/functions/wrappers'
+
+// Legacy /id route from before the dynamic routes demo, kept so existing links and callers still work.
+// New code should use /params/:id, see node-functions/params/[id].ts
+export const onRequest = withFunctionCors(withFunctionDuration(withFunctionErrorHandling((context: FunctionContext) =>
+  echoRequest(context, '/id')
+)))
@@ -0,0 +1,7 @@
+import type { FunctionContext, FunctionEnv } from '../../src/lib/functions/types'
+import { echoRequest } from '../../src/lib/functions/request-echo'
+import { withFunctionDuration, withFunctionCors, withFunctionErrorHandling } from '../../src/lib/functions/wrappers'
+
+export const onRequest = withFunctionCors(withFunctionDuration(withFunctionErrorHandling((context: FunctionContext<FunctionEnv, { id: string }>) =>
+  echoRequest(context, '/params/[id]')
+)))
@@ -0,0 +1,58 @@
+import { NextRequest } from 'next/server'
+import { ApiError, withErrorHandling } from '@/lib/api/errors'
+import { getServerTiming, withServerTiming } from '@/lib/server-timing'
+import {
+  createReport,
+  formatReport,
+  getProbeTarget,
+  probeSuites,
+  REPORT_CONTENT_TYPES,
+  REPORT_FILE_EXTENSIONS,
+  REPORT_FORMATS,
+  runProbes
+} from '@/lib/probes'
+import type { ProbeSuiteName, ReportFormat } from '@/lib/probes'
+
+// Probes must run on every call, never from a cached response
+export const dynamic = 'force-dynamic'
+
+// GET /api/diagnostics/ssr?format=json|csv|junit&download=1
+// Responds 200 when every probe met its expected outcome and 503 otherwise,
+// so a deploy pipeline can gate on the status code alone
+export const GET = withServerTiming(withErrorHandling(async (request: NextRequest, { params }: { params: Promise<{ suite: string }> }) => {
+  const { suite } = await params
+  const { searchParams } = new URL(request.url)
+  const format = (searchParams.get('format') || 'json') as ReportFormat
+
+  // Own keys only, `in` would also accept Object.prototype names such as toString
+  if (!Object.hasOwn(probeSuites, suite)) {
+    throw new ApiError('NOT_FOUND', `Unknown probe suite "${suite}"`, { details: { suites: Object.keys(probeSuites) } })
+  }
+
+  if (!REPORT_FORMATS.includes(format)) {
+    throw new ApiError('BAD_REQUEST', `Unsupported format "${format}"`, { details: { formats: REPORT_FORMATS } })
+  }
+
+  const { getProbes, budgetMs } = probeSuites[suite as ProbeSuiteName]
+  const startedAt = performance.now()
+  const results = await runProbes(getProbes(), { budgetMs })
+  const report = createReport(suite, getProbeTarget(), results, Math.round(performance.now() - startedAt))
+
+  // One Server-Timing entry per probe, the same fetches the /ssr and /isr pages make
+  const timing = getServerTiming(request)
+  for (const result of results) timing.add(`probe-${result.test}`, result.durationMs, `${result.test}: ${result.status}`)
+
+  const headers = new Headers({
+    'Content-Type': REPORT_CONTENT_TYPES[format],
+    'Cache-Control': 'no-store'
+  })
+  if (searchParams.has('download')) {
+    headers.set('Content-Disposition', `attachment; filename="diagnostics-${suite}.${REPORT_FILE_EXTENSIONS[format]}"`)
+  }
+
+  const body = await timing.measure('render', () => formatReport(report, format), `Render ${format} report`)
+  return new Response(body, {
+    status: report.ok ? 200 : 503,
+    headers
+  })
+}))
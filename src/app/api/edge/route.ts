@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { withErrorHandling } from '@/lib/api/errors'
+import { withServerTiming } from '@/lib/server-timing'
+import { parseJsonBody, schema, type Infer } from '@/lib/api/schema'
 
 // 指定使用 Edge Runtime
 export const runtime = 'edge'
 
-export async function GET(request: NextRequest) {
+export const GET = withServerTiming(withErrorHandling(async (request: NextRequest) => {
   const { searchParams } = new URL(request.url)
   const name = searchParams.get('name') || 'World'
   
@@ -33,30 +36,43 @@ export async function GET(request: NextRequest) {
       'No long-running tasks'
     ]
   })
+}))
+
+// Edge 端只接收小体积的请求体
+const EDGE_MAX_BODY_BYTES = 4 * 1024
+
+const edgeRequestSchema = schema.object({
+  name: schema.string({ minLength: 1, maxLength: 100 }),
+  region: schema.optional(schema.string({ maxLength: 50 })),
+  priority: schema.optional(schema.oneOf(['low', 'normal', 'high']))
+})
+
+type EdgeResponse = Infer<typeof edgeRequestSchema> & {
+  processed: true
+  edge: true
+  timestamp: string
+  edgeFeatures: {
+    global: boolean
+    lowLatency: boolean
+    instantStart: boolean
+  }
 }
 
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json()
-    
-    // Edge Runtime 中的轻量级处理
-    const processed = {
-      ...body,
-      processed: true,
-      edge: true,
-      timestamp: new Date().toISOString(),
-      edgeFeatures: {
-        global: true,
-        lowLatency: true,
-        instantStart: true
-      }
+export const POST = withServerTiming(withErrorHandling(async (request: NextRequest) => {
+  const body = await parseJsonBody(request, edgeRequestSchema, { maxBytes: EDGE_MAX_BODY_BYTES })
+
+  // Edge Runtime 中的轻量级处理
+  const processed: EdgeResponse = {
+    ...body,
+    processed: true,
+    edge: true,
+    timestamp: new Date().toISOString(),
+    edgeFeatures: {
+      global: true,
+      lowLatency: true,
+      instantStart: true
     }
-    
-    return NextResponse.json(processed)
-  } catch (error) {
-    return NextResponse.json(
-      { error: 'Invalid JSON payload' },
-      { status: 400 }
-    )
   }
-} 
\ No newline at end of file
+
+  return NextResponse.json(processed)
+}))
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { withErrorHandling } from '@/lib/api/errors'
+import { withServerTiming } from '@/lib/server-timing'
+import { parseJsonBody, schema, type Infer } from '@/lib/api/schema'
 
-export async function GET(request: NextRequest) {
+export const GET = withServerTiming(withErrorHandling(async (request: NextRequest) => {
   const { searchParams } = new URL(request.url)
   const name = searchParams.get('name') || 'World'
   
@@ -23,30 +26,40 @@ export async function GET(request: NextRequest) {
       'Complex business logic'
     ]
   })
+}))
+
+const helloRequestSchema = schema.object({
+  name: schema.string({ minLength: 1, maxLength: 100 }),
+  message: schema.optional(schema.string({ maxLength: 500 })),
+  tags: schema.optional(schema.array(schema.string({ maxLength: 50 }), { maxItems: 10 }))
+})
+
+type HelloResponse = Infer<typeof helloRequestSchema> & {
+  processed: true
+  nodejs: true
+  timestamp: string
+  serverInfo: {
+    nodeVersion: string
+    platform: string
+    memoryUsage: NodeJS.MemoryUsage
+  }
 }
 
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json()
-    
-    // 模拟数据处理
-    const processed = {
-      ...body,
-      processed: true,
-      nodejs: true,
-      timestamp: new Date().toISOString(),
-      serverInfo: {
-        nodeVersion: process.version,
-        platform: process.platform,
-        memoryUsage: process.memoryUsage()
-      }
+export const POST = withServerTiming(withErrorHandling(async (request: NextRequest) => {
+  const body = await parseJsonBody(request, helloRequestSchema)
+
+  // 模拟数据处理，只回显 schema 中声明的字段
+  const processed: HelloResponse = {
+    ...body,
+    processed: true,
+    nodejs: true,
+    timestamp: new Date().toISOString(),
+    serverInfo: {
+      nodeVersion: process.version,
+      platform: process.platform,
+      memoryUsage: process.memoryUsage()
     }
-    
-    return NextResponse.json(processed)
-  } catch (error) {
-    return NextResponse.json(
-      { error: 'Invalid JSON payload' },
-      { status: 400 }
-    )
   }
-} 
\ No newline at end of file
+
+  return NextResponse.json(processed)
+}))
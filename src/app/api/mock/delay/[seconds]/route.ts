@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { describeRequest } from '@/lib/httpbin'
+
+// httpbin caps delays at 10 seconds as well
+const MAX_DELAY_SECONDS = 10
+
+async function handler(request: NextRequest, { params }: { params: Promise<{ seconds: string }> }) {
+  const { seconds } = await params
+  const delay = Math.min(Math.max(Number(seconds) || 0, 0), MAX_DELAY_SECONDS)
+
+  await new Promise(resolve => setTimeout(resolve, delay * 1000))
+
+  return NextResponse.json(await describeRequest(request))
+}
+
+export { handler as GET, handler as POST, handler as PUT, handler as PATCH, handler as DELETE }
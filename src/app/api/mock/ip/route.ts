@@ -0,0 +1,8 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getClientIp } from '@/lib/httpbin'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json({ origin: getClientIp(request) })
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+
+// Same sample document httpbin.org/json returns
+export async function GET() {
+  return NextResponse.json({
+    slideshow: {
+      author: 'Yours Truly',
+      date: 'date of publication',
+      slides: [
+        { title: 'Wake up to WonderWidgets!', type: 'all' },
+        {
+          items: ['Why <em>WonderWidgets</em> are great', 'Who <em>buys</em> WonderWidgets'],
+          title: 'Overview',
+          type: 'all'
+        }
+      ],
+      title: 'Sample Slide Show'
+    }
+  })
+}
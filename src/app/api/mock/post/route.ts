@@ -0,0 +1,7 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { describeRequest } from '@/lib/httpbin'
+
+// Echoes the request back, including the raw and parsed body
+export async function POST(request: NextRequest) {
+  return NextResponse.json(await describeRequest(request))
+}
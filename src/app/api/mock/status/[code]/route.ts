@@ -0,0 +1,17 @@
+import { NextRequest } from 'next/server'
+import { ApiError, withErrorHandling } from '@/lib/api/errors'
+
+// Accepts a single code or a comma separated list to pick from at random, like httpbin
+const handler = withErrorHandling(async (_request: NextRequest, { params }: { params: Promise<{ code: string }> }) => {
+  const { code } = await params
+  const codes = code.split(',').map(Number)
+  const status = codes[Math.floor(Math.random() * codes.length)]
+
+  if (!Number.isInteger(status) || status < 200 || status > 599) {
+    throw new ApiError('BAD_REQUEST', 'Invalid status code')
+  }
+
+  return new Response(null, { status })
+})
+
+export { handler as GET, handler as POST, handler as PUT, handler as PATCH, handler as DELETE }
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ApiError, withErrorHandling } from '@/lib/api/errors'
+import { parseJsonBody, schema } from '@/lib/api/schema'
+import { withServerTiming } from '@/lib/server-timing'
+import { applyRevalidation, isRevalidateSecretConfigured, isValidRevalidateSecret } from '@/lib/revalidate'
+
+const revalidateRequestSchema = schema.object({
+  path: schema.optional(schema.oneOrMany(schema.string({ minLength: 1, maxLength: 1024 }), { maxItems: 50 })),
+  tag: schema.optional(schema.oneOrMany(schema.string({ minLength: 1, maxLength: 256 }), { maxItems: 50 }))
+})
+
+// POST /api/revalidate with { path?: string | string[], tag?: string | string[] }
+// The shared secret goes in the x-revalidate-secret header or the `secret` query parameter
+export const POST = withServerTiming(withErrorHandling(async (request: NextRequest) => {
+  if (!isRevalidateSecretConfigured()) {
+    throw new ApiError('NOT_CONFIGURED', 'REVALIDATE_SECRET is not configured')
+  }
+
+  const secret = request.headers.get('x-revalidate-secret') ?? new URL(request.url).searchParams.get('secret')
+  if (!isValidRevalidateSecret(secret)) {
+    throw new ApiError('UNAUTHORIZED', 'Invalid revalidation secret')
+  }
+
+  const { path: paths = [], tag: tags = [] } = await parseJsonBody(request, revalidateRequestSchema)
+
+  if (paths.length === 0 && tags.length === 0) {
+    throw new ApiError('BAD_REQUEST', 'Provide at least one path or tag to revalidate')
+  }
+
+  return NextResponse.json(applyRevalidation({ paths, tags }))
+}))
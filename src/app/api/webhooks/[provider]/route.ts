@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ApiError, withErrorHandling } from '@/lib/api/errors'
+import { withServerTiming } from '@/lib/server-timing'
+import { applyRevalidation } from '@/lib/revalidate'
+import {
+  getWebhookEvent,
+  isWithinTolerance,
+  markDeliverySeen,
+  resolveWebhookTargets,
+  verifySignature,
+  webhookProviders
+} from '@/lib/webhooks'
+
+// Signature checks only need Web Crypto, so deliveries are handled at the edge
+export const runtime = 'edge'
+
+// Rules read top-level fields, so null, arrays and primitives are not deliveries we understand
+const isPayloadObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// POST /api/webhooks/cms or /api/webhooks/git
+export const POST = withServerTiming(withErrorHandling(async (request: NextRequest, { params }: { params: Promise<{ provider: string }> }) => {
+  const { provider: providerName } = await params
+  // Own keys only, /api/webhooks/toString/ must not resolve to Object.prototype
+  const provider = Object.hasOwn(webhookProviders, providerName) ? webhookProviders[providerName] : undefined
+
+  if (!provider) {
+    throw new ApiError('NOT_FOUND', `Unknown webhook provider "${providerName}"`, { details: { providers: Object.keys(webhookProviders) } })
+  }
+
+  const secret = process.env[provider.secretEnv]
+  if (!secret) {
+    throw new ApiError('NOT_CONFIGURED', `${provider.secretEnv} is not configured`)
+  }
+
+  // Verify against the raw body, re-serialised JSON would not match the sender's bytes
+  const rawBody = await request.text()
+  const timestamp = provider.scheme === 'timestamp' ? Number(request.headers.get(provider.timestampHeader)) : NaN
+  const signedPayload = provider.scheme === 'timestamp' ? `${timestamp}.${rawBody}` : rawBody
+  const signature = (request.headers.get(provider.signatureHeader) ?? '').replace(provider.signaturePrefix ?? '', '')
+
+  if (!signature || !(await verifySignature(secret, signedPayload, signature))) {
+    throw new ApiError('UNAUTHORIZED', 'Invalid webhook signature')
+  }
+
+  if (provider.scheme === 'timestamp' && !isWithinTolerance(timestamp)) {
+    throw new ApiError('UNAUTHORIZED', 'Webhook timestamp is outside the allowed window')
+  }
+
+  if (provider.scheme === 'delivery') {
+    const deliveryId = request.headers.get(provider.deliveryHeader)
+    if (!deliveryId) throw new ApiError('UNAUTHORIZED', `Missing ${provider.deliveryHeader} header`)
+    if (!markDeliverySeen(`${providerName}:${deliveryId}`)) {
+      throw new ApiError('UNAUTHORIZED', 'Webhook delivery was already processed')
+    }
+  }
+
+  let payload: unknown
+  try {
+    payload = JSON.parse(rawBody)
+  } catch {
+    throw new ApiError('INVALID_JSON', 'Invalid JSON payload')
+  }
+
+  if (!isPayloadObject(payload)) {
+    throw new ApiError('BAD_REQUEST', 'Webhook payload must be a JSON object')
+  }
+
+  const event = getWebhookEvent(provider, request.headers, payload)
+  const { matchedRules, ...targets } = resolveWebhookTargets(providerName, event, payload)
+
+  // Nothing to invalidate is still a successful delivery, so the sender does not retry it
+  return NextResponse.json(
+    { provider: providerName, event, matchedRules, ...applyRevalidation(targets) },
+    { status: matchedRules > 0 ? 200 : 202 }
+  )
+}))
@@ -0,0 +1,33 @@
+import type { Metadata } from 'next'
+import { PageLayout, DemoLayout } from '@/components/layout'
+import BenchmarkRunner from '@/components/BenchmarkRunner'
+import { getDemoMetadata } from '@/lib/metadata'
+
+export async function generateMetadata(): Promise<Metadata> {
+  return getDemoMetadata('Benchmark')
+}
+
+// This page measures Node.js and Edge latency from the browser
+export default function BenchmarkPage() {
+  const codeExample = `// src/lib/benchmark.ts
+const startedAt = performance.now()
+const res = await fetch(\`\${target.path}?bench=\${Date.now()}-\${index}\`, { cache: 'no-store' })
+await res.arrayBuffer()
+const durationMs = performance.now() - startedAt
+
+// p50 / p95 / p99 use the nearest-rank method over successful requests,
+// samples over 3x the median (and at least 50ms slower) are flagged as cold starts`
+
+  return (
+    <PageLayout>
+      <DemoLayout
+        title="Benchmark"
+        subtitle="Measure instead of trusting the marketing: fire requests at Node.js and Edge endpoints and compare."
+        description="Each target is called the configured number of times, one at a time or with several requests in flight. The round trip is timed in the browser, so the numbers include the network path to the nearest EdgeOne node as well as the function itself."
+        codeExample={codeExample}
+        renderMode="Benchmark"
+        dataDisplay={<BenchmarkRunner />}
+      />
+    </PageLayout>
+  )
+}
@@ -0,0 +1,77 @@
+import type { Metadata } from 'next'
+import { PageLayout, DemoLayout } from '@/components/layout'
+import FunctionPlayground from '@/components/FunctionPlayground'
+import { getDemoMetadata } from '@/lib/metadata'
+
+export async function generateMetadata(): Promise<Metadata> {
+  return getDemoMetadata('Dynamic Routes')
+}
+
+// How EdgeOne turns function file names into routes
+const routeMappings = [
+  { file: 'node-functions/hello-node.ts', route: '/hello-node', params: '-' },
+  { file: 'node-functions/params/[id].ts', route: '/params/1024', params: '{ id: "1024" }' },
+  { file: 'node-functions/files/[[default]].ts', route: '/files/docs/guides/intro', params: '{ default: ["docs", "guides", "intro"] }' },
+  { file: 'edge-functions/hello-edge.ts', route: '/hello-edge', params: '-' }
+]
+
+// This page demonstrates dynamic Node Function routes
+export default function DynamicRoutesPage() {
+  const codeExample = `// node-functions/params/[id].ts -> /params/:id
+import type { FunctionContext, FunctionEnv } from '../../src/lib/functions/types'
+
+export function onRequest(context: FunctionContext<FunctionEnv, { id: string }>) {
+  const { request, params } = context
+  const url = new URL(request.url)
+
+  return new Response(JSON.stringify({
+    route: '/params/[id]',
+    params,                                   // { id: '1024' }
+    query: Object.fromEntries(url.searchParams),
+    method: request.method,
+  }), {
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+// node-functions/files/[[default]].ts -> /files, /files/a, /files/a/b/...
+// params.default holds every segment after /files`
+
+  return (
+    <PageLayout>
+      <DemoLayout
+        title="Dynamic Routes"
+        subtitle="Name a function file after its route and wrap dynamic segments in brackets."
+        description="[id].ts matches exactly one path segment and exposes it as params.id, while [[default]].ts matches its directory and everything below it. Both read the parameters from context.params, so one function can serve a whole family of URLs."
+        codeExample={codeExample}
+        renderMode="Dynamic Routes"
+        dataDisplay={
+          <div className="space-y-8">
+            <div className="text-left">
+              <h2 className="text-2xl font-semibold text-white mb-4">File Name to Route Mapping</h2>
+              <div className="space-y-2 text-sm">
+                {routeMappings.map(mapping => (
+                  <div key={mapping.file} className="grid grid-cols-1 md:grid-cols-3 gap-1 border-b border-gray-700 pb-2 font-mono">
+                    <span className="text-blue-400">{mapping.file}</span>
+                    <span className="text-white">{mapping.route}</span>
+                    <span className="text-gray-400">{mapping.params}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-xl font-semibold text-white mb-4 text-left">Single Segment: [id]</h3>
+              <FunctionPlayground defaultPath="/params/:id?lang=en" defaultPathParams={{ id: '1024' }} />
+            </div>
+
+            <div>
+              <h3 className="text-xl font-semibold text-white mb-4 text-left">Catch-All: [[default]]</h3>
+              <FunctionPlayground defaultPath="/files/docs/guides/intro" />
+            </div>
+          </div>
+        }
+      />
+    </PageLayout>
+  )
+}
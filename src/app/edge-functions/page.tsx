@@ -1,52 +1,23 @@
-'use client'
+import type { Metadata } from 'next'
+import { PageLayout, DemoLayout } from '@/components/layout'
+import FunctionPlayground from '@/components/FunctionPlayground'
+import { getDemoMetadata } from '@/lib/metadata'
 
-import Header from '@/components/Header'
-import { Button } from '@/components/ui/button'
-import { Play } from 'lucide-react';
-import { useState, useEffect } from 'react'
+export async function generateMetadata(): Promise<Metadata> {
+  return getDemoMetadata('Edge Functions')
+}
 
 // This page demonstrates Edge Functions
 export default function EdgeFunctionsPage() {
-  const [isLoading, setIsLoading] = useState(false);
-  const [data, setData] = useState('')
-  const handleClick = async () => {
-    setIsLoading(true)
-    const res = await fetch('/hello-edge')
-    const text = await res.text()
-    setData(text)
-    setIsLoading(false)
-  }
+  const codeExample = `// edge-functions/hello-edge.ts - GET, POST and the CORS preflight, other methods get 405 + Allow
+import type { FunctionContext } from '../src/lib/functions/types'
+import { handleFunctionPreflight, withEdgeCountry, withFunctionCors, withFunctionErrorHandling } from '../src/lib/functions/wrappers'
 
+export const onRequestOptions = handleFunctionPreflight
 
-  return (
-    <main className="min-h-screen bg-black">
-      <Header />
-
-      {/* Main title area */}
-      <div className="container mx-auto px-4 py-20 text-center">
-        <h1 className="text-5xl font-bold text-white mb-6">
-          EdgeOne Pages Next.js Starter - Edge Functions
-        </h1>
-        <p className="text-xl text-gray-300 mb-4">
-          Run code at the edge, no server management required, providing the lowest latency global deployment.
-        </p>
-        <p className="text-lg text-gray-400 mb-8">
-          Suitable for real-time data processing and geolocation services, the advantage is global edge deployment and ultra-low latency response, suitable for lightweight API, real-time notifications, and content personalization.
-        </p>
-        <a href="https://pages.edgeone.ai/document/edge-functions" target="_blank" rel="noopener noreferrer">
-          <Button size="lg" variant="outline" className="hover:bg-gray-700 text-white px-8 py-3 text-lg cursor-pointer">
-            View Documentation
-          </Button>
-        </a>
-      </div>
-
-      {/* Code example area */}
-      <div className="container mx-auto px-4 mb-8">
-        <div className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-lg p-8">
-          <div className="bg-gray-900 rounded p-6 text-left">
-            <pre className="text-sm">
-              {`export default function onRequest(context) {
-  const {geo} = context;
+// withEdgeCountry adds an x-edge-country header with the edge location's country
+export const onRequestGet = withFunctionCors(withEdgeCountry(withFunctionErrorHandling((context: FunctionContext) => {
+  const { geo } = context
 
   return new Response(JSON.stringify({
     message: 'Hello Edge!',
@@ -56,37 +27,33 @@ export default function EdgeFunctionsPage() {
       'Content-Type': 'application/json',
     },
   })
-}`}
-            </pre>
-          </div>
-        </div>
-      </div>
+})))
 
-      {/* Dynamic data display area */}
-      <div className="container mx-auto px-4 mb-20">
-        <div className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-lg p-8 text-center">
+// edge-functions/_middleware.ts - runs before every Edge function in the emulator
+export async function onRequest({ next }: FunctionContext) {
+  // The edgeone CLI does not chain _middleware files, there next is missing
+  if (!next) return new Response('Not Found', { status: 404 })
 
-          <Button
-            onClick={handleClick}
-            disabled={isLoading}
-            className="bg-[#1c66e5] hover:bg-[#1c66e5]/90 text-white cursor-pointer"
-          >
-            {isLoading ? (
-              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
-            ) : (
-              <Play className="w-4 h-4 mr-2" />
-            )}
-            Execute API Call
-          </Button>
+  const response = await next()
+  return withResponseHeaders(response, { 'x-middleware': 'edge-functions/_middleware' })
+}`
 
-          {data && <div className="space-y-2 text-left overflow-hidden">
-            <p className="text-gray-300">
-              <span className="text-blue-400">Function Return:</span> {data}
-            </p>
-
-          </div>}
-        </div>
-      </div>
-    </main>
+  return (
+    <PageLayout>
+      <DemoLayout
+        title="Edge Functions"
+        subtitle="Run code at the edge, no server management required, providing the lowest latency global deployment."
+        description="Suitable for real-time data processing and geolocation services, the advantage is global edge deployment and ultra-low latency response, suitable for lightweight API, real-time notifications, and content personalization."
+        codeExample={codeExample}
+        renderMode="Edge Functions"
+        dataDisplay={
+          <FunctionPlayground
+            defaultPath="/hello-edge"
+            defaultHeaders="Content-Type: application/json"
+            defaultBody={'{ "name": "EdgeOne" }'}
+          />
+        }
+      />
+    </PageLayout>
   )
-} 
\ No newline at end of file
+}
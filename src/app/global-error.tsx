@@ -0,0 +1,26 @@
+'use client'
+
+import Image from 'next/image'
+import './globals.css'
+
+// Replaces the root layout when it fails itself, so it cannot rely on Header or other shared components
+export default function GlobalError({ error, reset }: { error: Error & { digest?: string }; reset: () => void }) {
+  return (
+    <html lang="en-US" className="dark">
+      <body className="bg-black text-white antialiased">
+        <main className="min-h-screen flex flex-col items-center justify-center px-4 text-center">
+          <Image src="/eo-logo-blue.svg" alt="EdgeOne Pages" width={48} height={48} className="mb-6" unoptimized />
+          <h1 className="text-4xl font-bold mb-4">EdgeOne Pages Next.js Starter is unavailable</h1>
+          <p className="text-lg text-gray-300 mb-2">{error.message || 'An unexpected error occurred.'}</p>
+          {error.digest && <p className="text-sm text-gray-500 font-mono mb-8">Digest: {error.digest}</p>}
+          <button
+            onClick={reset}
+            className="mt-4 px-6 py-3 rounded-md bg-blue-600 hover:bg-blue-700 text-white cursor-pointer"
+          >
+            Try Again
+          </button>
+        </main>
+      </body>
+    </html>
+  )
+}
@@ -0,0 +1,9 @@
+import { PageLayout, DemoLayoutSkeleton } from '@/components/layout'
+
+export default function ISRLoading() {
+  return (
+    <PageLayout>
+      <DemoLayoutSkeleton renderMode="ISR" />
+    </PageLayout>
+  )
+}
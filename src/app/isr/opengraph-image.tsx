@@ -0,0 +1,10 @@
+import { getOgImageAlt, OG_IMAGE_CONTENT_TYPE, OG_IMAGE_SIZE, renderDemoOgImage } from '@/lib/og-image'
+
+export const runtime = 'edge'
+export const alt = getOgImageAlt('ISR')
+export const size = OG_IMAGE_SIZE
+export const contentType = OG_IMAGE_CONTENT_TYPE
+
+export default function Image() {
+  return renderDemoOgImage('ISR')
+}
@@ -0,0 +1,28 @@
+import type { MetadataRoute } from 'next'
+import { demos } from '@/lib/demos'
+import { SITE_DESCRIPTION, SITE_TITLE } from '@/lib/site'
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: SITE_TITLE,
+    short_name: 'EdgeOne Pages',
+    description: SITE_DESCRIPTION,
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#000000',
+    theme_color: '#3b82f6',
+    icons: [
+      {
+        src: '/eo-logo-blue.svg',
+        sizes: 'any',
+        type: 'image/svg+xml'
+      }
+    ],
+    shortcuts: demos.map(demo => ({
+      name: demo.title,
+      short_name: demo.label,
+      description: demo.description,
+      url: `${demo.route}/`
+    }))
+  }
+}
@@ -1,90 +1,59 @@
-"use client";
+import type { Metadata } from 'next'
+import { PageLayout, DemoLayout } from '@/components/layout'
+import FunctionPlayground from '@/components/FunctionPlayground'
+import { getDemoMetadata } from '@/lib/metadata'
 
-import Header from "@/components/Header";
-import { Button } from "@/components/ui/button";
-import { Play } from "lucide-react";
-import { useState, useEffect } from "react";
+export async function generateMetadata(): Promise<Metadata> {
+  return getDemoMetadata('Node Functions')
+}
 
 // This page demonstrates Node.js Functions
 export default function NodeFunctionsPage() {
-  const [isLoading, setIsLoading] = useState(false);
-  const [data, setData] = useState("");
-  const handleClick = async () => {
-    setIsLoading(true);
-    const res = await fetch("/hello-node");
-    const text = await res.text();
-    setData(text);
-    setIsLoading(false);
-  };
+  const codeExample = `// node-functions/hello-node.ts - GET, POST and the CORS preflight, other methods get 405 + Allow
+export const onRequestOptions = handleFunctionPreflight
 
-  return (
-    <main className="min-h-screen bg-black">
-      <Header />
+// Wrappers run wherever the function is deployed, unlike _middleware.ts below
+export const onRequestGet = withFunctionCors(withFunctionDuration(withFunctionErrorHandling(() => new Response('Hello Node!'))))
 
-      {/* Main title area */}
-      <div className="container mx-auto px-4 py-20 text-center">
-        <h1 className="text-5xl font-bold text-white mb-6">
-          EdgeOne Pages Next.js Starter - Node Functions
-        </h1>
-        <p className="text-xl text-gray-300 mb-4">
-          Run code in Node.js at runtime, no server management required,
-          supporting the full Node.js API.
-        </p>
-        <p className="text-lg text-gray-400 mb-8">
-          Suitable for complex backend logic and data processing, the advantage
-          is the complete Node.js ecosystem and npm package support, suitable
-          for API endpoints, database operations, and third-party service
-          integrations.
-        </p>
-        <a href="https://pages.edgeone.ai/document/node-functions" target="_blank" rel="noopener noreferrer">
-          <Button
-            size="lg"
-            variant="outline"
-            className="hover:bg-gray-700 text-white px-8 py-3 text-lg  cursor-pointer"
-          >
-            View Documentation
-          </Button>
-        </a>
-      </div>
+export const onRequestPost = withFunctionCors(withFunctionDuration(withFunctionErrorHandling(async ({ request }: FunctionContext) => {
+  // Throws ApiError (415, 413, 400 or 422) when the body does not fit the schema,
+  // withFunctionErrorHandling answers it with the JSON error envelope
+  const { name = 'Node' } = await parseJsonBody(request, helloSchema)
+  return new Response(\`Hello \${name}!\`)
+})))
 
-      {/* Code example area */}
-      <div className="container mx-auto px-4 mb-8">
-        <div className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-lg p-8">
-          <div className="bg-gray-900 rounded p-6 text-left">
-            <pre className="text-sm">
-              {`export default function onRequest(context) {
-  return new Response('Hello Node!')
-}`}
-            </pre>
-          </div>
-        </div>
-      </div>
+// src/lib/functions/wrappers.ts - reports the handler's time in x-function-duration
+export const withFunctionDuration = (handler: FunctionHandler): FunctionHandler => async context => {
+  const startedAt = Date.now()
+  const response = await handler(context)
+  return withResponseHeaders(response, { 'x-function-duration': \`\${Date.now() - startedAt}ms\` })
+}
 
-      {/* Dynamic data display area */}
-      <div className="container mx-auto px-4 mb-20">
-        <div className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-lg p-8 text-center">
-          <Button
-            onClick={handleClick}
-            disabled={isLoading}
-            className="bg-[#1c66e5] hover:bg-[#1c66e5]/90 text-white cursor-pointer"
-          >
-            {isLoading ? (
-              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
-            ) : (
-              <Play className="w-4 h-4 mr-2" />
-            )}
-            Execute API Call
-          </Button>
+// node-functions/_middleware.ts - runs before every Node function in the emulator
+export async function onRequest({ next }: FunctionContext) {
+  // The edgeone CLI does not chain _middleware files, there next is missing
+  if (!next) return new Response('Not Found', { status: 404 })
 
-          {data && (
-            <div className="space-y-2 text-left">
-              <p className="text-gray-300">
-                <span className="text-blue-400">Function Return:</span> {data}
-              </p>
-            </div>
-          )}
-        </div>
-      </div>
-    </main>
-  );
+  const response = await next()
+  return withResponseHeaders(response, { 'x-middleware': 'node-functions/_middleware' })
+}`
+
+  return (
+    <PageLayout>
+      <DemoLayout
+        title="Node Functions"
+        subtitle="Run code in Node.js at runtime, no server management required, supporting the full Node.js API."
+        description="Suitable for complex backend logic and data processing, the advantage is the complete Node.js ecosystem and npm package support, suitable for API endpoints, database operations, and third-party service integrations."
+        codeExample={codeExample}
+        renderMode="Node Functions"
+        dataDisplay={
+          <FunctionPlayground
+            defaultPath="/hello-node"
+            defaultHeaders="Content-Type: application/json"
+            defaultBody={'{ "name": "EdgeOne" }'}
+          />
+        }
+      />
+    </PageLayout>
+  )
 }
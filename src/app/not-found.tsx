@@ -0,0 +1,34 @@
+import Link from 'next/link'
+import { PageLayout } from '@/components/layout'
+import { Button } from '@/components/ui/button'
+import { demos } from '@/lib/demos'
+
+export default function NotFound() {
+  return (
+    <PageLayout>
+      <div className="container mx-auto px-4 py-20 text-center">
+        <p className="text-7xl font-bold text-blue-500 mb-4">404</p>
+        <h1 className="text-4xl font-bold text-white mb-4">Page not found</h1>
+        <p className="text-lg text-gray-300 mb-8">
+          This page does not exist. Try one of the rendering demos instead.
+        </p>
+        <div className="flex flex-wrap gap-3 justify-center mb-8 max-w-3xl mx-auto">
+          {demos.map(demo => (
+            <Link
+              key={demo.route}
+              href={demo.route}
+              className={`${demo.color.badge} border rounded-lg px-4 py-2 text-sm hover:opacity-80 transition-opacity`}
+            >
+              {demo.icon} {demo.label}
+            </Link>
+          ))}
+        </div>
+        <Link href="/">
+          <Button size="lg" variant="outline" className="hover:bg-gray-700 text-white cursor-pointer">
+            Back to Home
+          </Button>
+        </Link>
+      </div>
+    </PageLayout>
+  )
+}
@@ -0,0 +1,14 @@
+import type { MetadataRoute } from 'next'
+import { getSiteUrl } from '@/lib/site'
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: '*',
+      allow: '/',
+      // API routes only serve the demos, they are not pages worth indexing
+      disallow: '/api/'
+    },
+    sitemap: `${getSiteUrl()}/sitemap.xml`
+  }
+}
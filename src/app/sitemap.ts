@@ -0,0 +1,37 @@
+import type { MetadataRoute } from 'next'
+import { demos, type CacheStrategy, type DemoDefinition } from '@/lib/demos'
+import { absoluteUrl, getBuildTime } from '@/lib/site'
+
+// Rendered per request so on-demand pages can report the request time
+export const dynamic = 'force-dynamic'
+
+type ChangeFrequency = MetadataRoute.Sitemap[number]['changeFrequency']
+
+const CHANGE_FREQUENCIES: Record<CacheStrategy, ChangeFrequency> = {
+  'per-request': 'always',
+  revalidate: 'hourly',
+  static: 'monthly',
+  none: 'monthly'
+}
+
+// Pages rendered on demand are new on every request, the rest only change when the app is rebuilt
+const isRenderedOnDemand = (strategy: CacheStrategy) => strategy === 'per-request' || strategy === 'revalidate'
+
+export default function sitemap(): MetadataRoute.Sitemap {
+  const requestTime = new Date()
+  const buildTime = getBuildTime()
+
+  const demoEntries = demos.flatMap(({ route, cachePolicy, dynamicPaths = [] }: DemoDefinition) =>
+    [route, ...dynamicPaths].map(path => ({
+      url: absoluteUrl(path),
+      lastModified: isRenderedOnDemand(cachePolicy.strategy) ? requestTime : buildTime,
+      changeFrequency: CHANGE_FREQUENCIES[cachePolicy.strategy],
+      priority: path === route ? 0.8 : 0.5
+    }))
+  )
+
+  return [
+    { url: absoluteUrl('/'), lastModified: buildTime, changeFrequency: 'weekly', priority: 1 },
+    ...demoEntries
+  ]
+}
@@ -1,4 +1,10 @@
 import { PageLayout, DemoLayout, DataDisplay } from '@/components/layout'
+import type { Metadata } from 'next'
+import { getDemoMetadata } from '@/lib/metadata'
+
+export async function generateMetadata(): Promise<Metadata> {
+  return getDemoMetadata('SSG')
+}
 
 // This page demonstrates Static Site Generation
 export default function SSGPage() {
@@ -0,0 +1,9 @@
+import { PageLayout, DemoLayoutSkeleton } from '@/components/layout'
+
+export default function SSRLoading() {
+  return (
+    <PageLayout>
+      <DemoLayoutSkeleton renderMode="SSR" />
+    </PageLayout>
+  )
+}
@@ -0,0 +1,12 @@
+'use client'
+
+import { PageLayout } from '@/components/layout'
+import ErrorState from '@/components/ErrorState'
+
+export default function StreamingError({ error, reset }: { error: Error & { digest?: string }; reset: () => void }) {
+  return (
+    <PageLayout>
+      <ErrorState title="The Streaming demo failed to render" error={error} reset={reset} />
+    </PageLayout>
+  )
+}
@@ -0,0 +1,9 @@
+import { PageLayout, DemoLayoutSkeleton } from '@/components/layout'
+
+export default function StreamingLoading() {
+  return (
+    <PageLayout>
+      <DemoLayoutSkeleton renderMode="Streaming" />
+    </PageLayout>
+  )
+}
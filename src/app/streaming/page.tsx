@@ -1,53 +1,73 @@
 import Header from '@/components/Header'
 import { Button } from '@/components/ui/button'
 import { Suspense } from 'react'
+import type { Metadata } from 'next'
+import { getDemoMetadata } from '@/lib/metadata'
+import ChunkMarker from '@/components/ChunkMarker'
+import StreamingTimeline from '@/components/StreamingTimeline'
+import StreamingLabForm from '@/components/StreamingLabForm'
+import RetryBoundary from '@/components/RetryBoundary'
+import { getChunkId, getExpectedChunks, getLevelDelay, parseStreamingLabConfig, toStreamingLabQuery } from '@/lib/streaming'
 
 // Force dynamic rendering - disable static optimization
 export const dynamic = 'force-dynamic'
 export const revalidate = 0
 
-// Simulate slow data fetching async component
-async function SlowDataComponent() {
+const BOUNDARY_COLORS = [
+  'bg-blue-600/20 border-blue-600 text-blue-400',
+  'bg-purple-600/20 border-purple-600 text-purple-400',
+  'bg-pink-600/20 border-pink-600 text-pink-400',
+  'bg-yellow-600/20 border-yellow-600 text-yellow-400',
+  'bg-orange-600/20 border-orange-600 text-orange-400',
+  'bg-teal-600/20 border-teal-600 text-teal-400'
+]
+
+// Simulate slow data fetching async component, nested levels stream in one after another
+async function SlowBoundary({ runId, requestStart, boundary, level, depth, delayMs, shouldFail = false }: {
+  runId: string
+  requestStart: number
+  boundary: number
+  level: number
+  depth: number
+  delayMs: number
+  shouldFail?: boolean
+}) {
   // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 5000))
+  await new Promise(resolve => setTimeout(resolve, getLevelDelay(delayMs, depth)))
 
-  const data = {
-    fetchTime: new Date().toISOString(),
-    streamingData: Math.floor(Math.random() * 1000),
-    message: 'This component loaded with streaming!'
+  if (shouldFail) {
+    throw new Error(`Simulated failure in slow component ${boundary + 1} after ${getLevelDelay(delayMs, depth)}ms`)
   }
 
-  return (
-    <div className="bg-blue-600/20 border border-blue-600 rounded-lg p-4 w-1/3">
-      <h3 className="text-blue-400 font-semibold mb-2">Slow Component 1 (5s delay)</h3>
-      <div className="text-sm text-gray-300 space-y-1">
-        <p>Fetch Time: {data.fetchTime}</p>
-        <p>Streaming Data: {data.streamingData}</p>
-        <p>Status: {data.message}</p>
-      </div>
-    </div>
-  )
-}
-
-// Another simulate slow data fetching async component
-async function AnotherSlowComponent() {
-  // Simulate longer network delay
-  await new Promise(resolve => setTimeout(resolve, 8000))
-
-  const data = {
-    fetchTime: new Date().toISOString(),
-    complexData: Math.floor(Math.random() * 10000),
-    status: 'Streaming complete!'
-  }
+  const serverElapsedMs = Date.now() - requestStart
+  const chunkId = getChunkId(boundary, level)
 
   return (
-    <div className="bg-purple-600/20 border border-purple-600 rounded-lg p-4 w-1/3">
-      <h3 className="text-purple-400 font-semibold mb-2">Slow Component 2 (8s delay)</h3>
+    <div className={`${level === 1 ? BOUNDARY_COLORS[boundary % BOUNDARY_COLORS.length] : 'border-gray-600'} border rounded-lg p-4 text-left`}>
+      <ChunkMarker runId={runId} chunkId={chunkId} serverElapsedMs={serverElapsedMs} />
+      <h3 className="font-semibold mb-2">
+        {level === 1 ? `Slow Component ${boundary + 1} (${delayMs}ms total)` : `Nested level ${level}`}
+      </h3>
       <div className="text-sm text-gray-300 space-y-1">
-        <p>Fetch Time: {data.fetchTime}</p>
-        <p>Complex Data: {data.complexData}</p>
-        <p>Status: {data.status}</p>
+        <p>Chunk: {chunkId}</p>
+        <p>Server Ready: {serverElapsedMs}ms after request</p>
+        <p>Streaming Data: {Math.floor(Math.random() * 1000)}</p>
       </div>
+
+      {level < depth && (
+        <div className="mt-3">
+          <Suspense fallback={<LoadingSpinner message={`Loading level ${level + 1}...`} />}>
+            <SlowBoundary
+              runId={runId}
+              requestStart={requestStart}
+              boundary={boundary}
+              level={level + 1}
+              depth={depth}
+              delayMs={delayMs}
+            />
+          </Suspense>
+        </div>
+      )}
     </div>
   )
 }
@@ -55,7 +75,7 @@ async function AnotherSlowComponent() {
 // Fast loading component
 function FastComponent() {
   return (
-    <div className="bg-green-600/20 border border-green-600 rounded-lg p-4 w-1/3">
+    <div className="bg-green-600/20 border border-green-600 rounded-lg p-4 text-left">
       <h3 className="text-green-400 font-semibold mb-2">Fast Component (Load instantly)</h3>
       <div className="text-sm text-gray-300 space-y-1">
         <p>Load Time: {new Date().toISOString()}</p>
@@ -69,7 +89,7 @@ function FastComponent() {
 // Loading component
 function LoadingSpinner({ message }: { message: string }) {
   return (
-    <div className="bg-gray-600/20 border border-gray-600 rounded-lg p-4 w-1/3">
+    <div className="bg-gray-600/20 border border-gray-600 rounded-lg p-4 text-left">
       <div className="flex items-center space-x-3">
         <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white"></div>
         <div>
@@ -81,8 +101,18 @@ function LoadingSpinner({ message }: { message: string }) {
   )
 }
 
+export async function generateMetadata(): Promise<Metadata> {
+  return getDemoMetadata('Streaming')
+}
+
 // This page demonstrates Server-Side Streaming
-export default function StreamingPage() {
+export default async function StreamingPage({ searchParams }: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
+  const requestStart = Date.now()
+  const config = parseStreamingLabConfig(await searchParams)
+  const runId = requestStart.toString(36)
+
   return (
     <main className="min-h-screen bg-black">
       <Header />
@@ -117,21 +147,32 @@ export default function StreamingPage() {
             Streaming: Streaming Rendering Demo
           </h2>
 
-          <div className="space-x-4 flex flex-row items-center justify-between">
+          <StreamingLabForm config={config} />
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-start">
             {/* Fast Component - Display immediately */}
             <FastComponent />
 
-            {/* Slow Component 1 - Use Suspense for streaming loading */}
-            <Suspense fallback={<LoadingSpinner message="Loading slow component 1 (5s)..." />}>
-              <SlowDataComponent />
-            </Suspense>
-
-            {/* Slow Component 2 - Use Suspense for streaming loading */}
-            <Suspense fallback={<LoadingSpinner message="Loading slow component 2 (8s)..." />}>
-              <AnotherSlowComponent />
-            </Suspense>
+            {/* Slow Components - Each Suspense boundary streams in, or fails, on its own */}
+            {config.delays.map((delayMs, boundary) => (
+              <RetryBoundary key={boundary} label={`Slow component ${boundary + 1}`}>
+                <Suspense fallback={<LoadingSpinner message={`Loading slow component ${boundary + 1} (${delayMs}ms)...`} />}>
+                  <SlowBoundary
+                    runId={runId}
+                    requestStart={requestStart}
+                    boundary={boundary}
+                    level={1}
+                    depth={config.depth}
+                    delayMs={delayMs}
+                    shouldFail={config.fail.includes(boundary)}
+                  />
+                </Suspense>
+              </RetryBoundary>
+            ))}
           </div>
 
+          <StreamingTimeline runId={runId} chunks={getExpectedChunks(config)} />
+
           <div className="mt-6 p-4 bg-blue-600/20 border border-blue-600 rounded-lg">
             <h3 className="text-blue-400 font-semibold mb-2">Streaming Rendering Features</h3>
             <div className="text-sm text-gray-300 space-y-1">
@@ -139,12 +180,17 @@ export default function StreamingPage() {
               <p>• <strong>Faster First Screen:</strong> Fast components display immediately without waiting for slow components</p>
               <p>• <strong>Better User Experience:</strong> Users can see partial content immediately</p>
               <p>• <strong>Parallel Processing:</strong> Multiple async components can load in parallel</p>
+              <p>• <strong>Nested Boundaries:</strong> Inner Suspense boundaries stream after their parent, each as its own chunk</p>
+              <p>• <strong>Isolated Failures:</strong> An error boundary around each Suspense region keeps one failing component from breaking the page</p>
             </div>
           </div>
 
           <div className="mt-6 text-center">
             <p className="text-gray-400 text-sm">
-              Refresh the page to see the true streaming rendering effect - content appears progressively!
+              Refresh the page to see the true streaming rendering effect - content appears progressively! Try{' '}
+              <a href="?boundaries=4&delays=500,1500,3000,6000&depth=1" className="text-blue-400 underline">four boundaries</a> or{' '}
+              <a href="?boundaries=2&delays=3000,6000&depth=3" className="text-blue-400 underline">nested levels</a> or{' '}
+              <a href="?boundaries=3&delays=1000,2000,3000&depth=1&fail=2" className="text-blue-400 underline">a failing boundary</a>.
             </p>
           </div>
         </div>
@@ -161,32 +207,46 @@ export const revalidate = 0
 
 import { Suspense } from 'react'
 
-export default function StreamingPage() {
+// Current run: ?${toStreamingLabQuery(config)}
+export default async function StreamingPage({ searchParams }) {
+  const { delays, depth } = parseStreamingLabConfig(await searchParams)
+
   return (
     <div>
       <h1>Streaming Rendering Demo</h1>
-      
+
       {/* Fast component displays immediately */}
       <FastComponent />
-      
-      {/* Slow components use Suspense for streaming loading */}
-      <Suspense fallback={<LoadingSpinner message="Loading component 1..." />}>
-        <SlowDataComponent />
-      </Suspense>
-      
-      <Suspense fallback={<LoadingSpinner message="Loading component 2..." />}>
-        <AnotherSlowComponent />
-      </Suspense>
+
+      {/* Every Suspense boundary is flushed as its own HTML chunk,
+          the client error boundary keeps a failure inside its region */}
+      {delays.map((delayMs, boundary) => (
+        <RetryBoundary key={boundary} label={\`Slow component \${boundary + 1}\`}>
+          <Suspense fallback={<LoadingSpinner />}>
+            <SlowBoundary boundary={boundary} level={1} depth={depth} delayMs={delayMs} />
+          </Suspense>
+        </RetryBoundary>
+      ))}
     </div>
   )
 }
 
 // Async server component
-async function SlowDataComponent() {
-  // Simulate data fetching delay
-  await new Promise(resolve => setTimeout(resolve, 2000))
-  const data = await fetch('https://api.example.com/slow-data')
-  return <div>Streaming data: {data.value}</div>
+async function SlowBoundary({ boundary, level, depth, delayMs }) {
+  // Each nesting level waits an equal share, so the deepest chunk lands after delayMs
+  await new Promise(resolve => setTimeout(resolve, delayMs / depth))
+
+  return (
+    <div>
+      {/* Inline script, runs as soon as the browser parses this chunk */}
+      <script>{\`performance.mark('chunk-\${boundary}.\${level}')\`}</script>
+      {level < depth && (
+        <Suspense fallback={<LoadingSpinner />}>
+          <SlowBoundary boundary={boundary} level={level + 1} depth={depth} delayMs={delayMs} />
+        </Suspense>
+      )}
+    </div>
+  )
 }`}
             </pre>
           </div>
@@ -0,0 +1,208 @@
+'use client'
+
+import { useState } from 'react'
+import { Download, Gauge } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  BENCHMARK_LIMITS,
+  BENCHMARK_TARGETS,
+  createBenchmarkExport,
+  DEFAULT_BENCHMARK_CONFIG,
+  runBenchmark,
+  type BenchmarkConfig,
+  type BenchmarkMode,
+  type BenchmarkResult
+} from '@/lib/benchmark'
+
+const inputClassName = 'w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-sm text-white'
+
+const clampInput = (value: string, max: number) => Math.min(Math.max(Number.parseInt(value, 10) || 1, 1), max)
+
+const BenchmarkResultCard = ({ result }: { result: BenchmarkResult }) => {
+  const { stats, histogram, coldStarts } = result
+  const tallest = Math.max(...histogram.map(bucket => bucket.count), 1)
+  const statRows = [
+    ['min', stats.min],
+    ['p50', stats.p50],
+    ['p95', stats.p95],
+    ['p99', stats.p99],
+    ['max', stats.max],
+    ['mean', stats.mean]
+  ] as const
+
+  return (
+    <div className="border border-gray-600 rounded-lg p-4 text-left">
+      <div className="flex justify-between items-start mb-3">
+        <div>
+          <h4 className="text-lg font-medium text-white">{result.target.label}</h4>
+          <p className="text-sm text-gray-400 font-mono">{result.target.path}</p>
+        </div>
+        <span className={`px-2 py-1 rounded text-sm font-medium ${result.target.runtime === 'edge' ? 'bg-pink-600' : 'bg-yellow-600'} text-white`}>
+          {result.target.runtime}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 md:grid-cols-6 gap-2 text-sm mb-4">
+        {statRows.map(([label, value]) => (
+          <div key={label} className="bg-gray-900 rounded p-2">
+            <p className="text-blue-400">{label}</p>
+            <p className="text-white font-mono">{value}ms</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-end gap-1 h-24 mb-1">
+        {histogram.map(bucket => (
+          <div
+            key={bucket.fromMs}
+            title={`${bucket.fromMs}-${bucket.toMs}ms: ${bucket.count}`}
+            className="flex-1 bg-blue-500 rounded-t"
+            style={{ height: `${(bucket.count / tallest) * 100}%` }}
+          />
+        ))}
+      </div>
+      {histogram.length > 0 && (
+        <div className="flex justify-between text-xs text-gray-500 mb-4">
+          <span>{histogram[0].fromMs}ms</span>
+          <span>{histogram[histogram.length - 1].toMs}ms</span>
+        </div>
+      )}
+
+      <div className="text-sm text-gray-300 space-y-1">
+        <p>
+          <span className="text-blue-400">Requests:</span> {stats.count} in {result.totalMs}ms
+          {stats.errors > 0 && <span className="text-red-400"> ({stats.errors} failed)</span>}
+        </p>
+        <p>
+          <span className="text-blue-400">Cold Start Outliers:</span>{' '}
+          {coldStarts.length === 0
+            ? 'none detected'
+            : coldStarts.map(sample => `#${sample.index + 1} ${sample.durationMs}ms`).join(', ')}
+        </p>
+      </div>
+    </div>
+  )
+}
+
+const BenchmarkRunner = () => {
+  const [config, setConfig] = useState<BenchmarkConfig>(DEFAULT_BENCHMARK_CONFIG)
+  const [targetIds, setTargetIds] = useState(BENCHMARK_TARGETS.map(target => target.id))
+  const [results, setResults] = useState<BenchmarkResult[]>([])
+  const [isRunning, setIsRunning] = useState(false)
+  const [progress, setProgress] = useState('')
+
+  const toggleTarget = (id: string) =>
+    setTargetIds(previous => previous.includes(id) ? previous.filter(targetId => targetId !== id) : [...previous, id])
+
+  const handleRun = async () => {
+    setIsRunning(true)
+    setResults([])
+
+    // Targets run one after another so they do not compete for the same connection pool
+    for (const target of BENCHMARK_TARGETS.filter(target => targetIds.includes(target.id))) {
+      let completed = 0
+      setProgress(`${target.label}: 0 / ${config.iterations}`)
+      const result = await runBenchmark(target, config, () => {
+        completed++
+        setProgress(`${target.label}: ${completed} / ${config.iterations}`)
+      })
+      setResults(previous => [...previous, result])
+    }
+
+    setProgress('')
+    setIsRunning(false)
+  }
+
+  const handleExport = () => {
+    const json = JSON.stringify(createBenchmarkExport(config, results), null, 2)
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `benchmark-${new Date().toISOString()}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="text-left space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="text-sm text-gray-300">
+          Requests per target (1-{BENCHMARK_LIMITS.maxIterations})
+          <input
+            type="number"
+            min={1}
+            max={BENCHMARK_LIMITS.maxIterations}
+            value={config.iterations}
+            onChange={event => setConfig({ ...config, iterations: clampInput(event.target.value, BENCHMARK_LIMITS.maxIterations) })}
+            className={`${inputClassName} mt-1`}
+          />
+        </label>
+        <label className="text-sm text-gray-300">
+          Mode
+          <select
+            value={config.mode}
+            onChange={event => setConfig({ ...config, mode: event.target.value as BenchmarkMode })}
+            className={`${inputClassName} mt-1`}
+          >
+            <option value="sequential">Sequential</option>
+            <option value="concurrent">Concurrent</option>
+          </select>
+        </label>
+        <label className="text-sm text-gray-300">
+          Concurrency (1-{BENCHMARK_LIMITS.maxConcurrency})
+          <input
+            type="number"
+            min={1}
+            max={BENCHMARK_LIMITS.maxConcurrency}
+            value={config.concurrency}
+            disabled={config.mode === 'sequential'}
+            onChange={event => setConfig({ ...config, concurrency: clampInput(event.target.value, BENCHMARK_LIMITS.maxConcurrency) })}
+            className={`${inputClassName} mt-1 disabled:opacity-50`}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-sm text-gray-300">
+        {BENCHMARK_TARGETS.map(target => (
+          <label key={target.id} className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={targetIds.includes(target.id)} onChange={() => toggleTarget(target.id)} />
+            {target.label} <span className="text-gray-500 font-mono">{target.path}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Button
+          onClick={handleRun}
+          disabled={isRunning || targetIds.length === 0}
+          className="bg-[#1c66e5] hover:bg-[#1c66e5]/90 text-white cursor-pointer"
+        >
+          {isRunning ? (
+            <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+          ) : (
+            <Gauge className="w-4 h-4 mr-2" />
+          )}
+          Run Benchmark
+        </Button>
+        <Button
+          onClick={handleExport}
+          disabled={isRunning || results.length === 0}
+          variant="outline"
+          className="hover:bg-gray-700 text-white cursor-pointer"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Export JSON
+        </Button>
+        {progress && <span className="text-sm text-gray-400">{progress}</span>}
+      </div>
+
+      <div className="space-y-4">
+        {results.map(result => (
+          <BenchmarkResultCard key={result.target.id} result={result} />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default BenchmarkRunner
@@ -0,0 +1,29 @@
+'use client'
+
+import { useEffect } from 'react'
+import { getChunkMarkName, type ChunkMarkDetail } from '@/lib/streaming'
+
+interface ChunkMarkerProps {
+  runId: string
+  chunkId: string
+  serverElapsedMs: number
+}
+
+const ChunkMarker = ({ runId, chunkId, serverElapsedMs }: ChunkMarkerProps) => {
+  const name = getChunkMarkName(runId, chunkId)
+
+  // Inline scripts do not run for chunks rendered on the client, e.g. after a client-side navigation
+  useEffect(() => {
+    if (performance.getEntriesByName(name, 'mark').length > 0) return
+    const detail: ChunkMarkDetail = { serverElapsedMs, source: 'effect' }
+    performance.mark(name, { detail })
+  }, [name, serverElapsedMs])
+
+  const detail: ChunkMarkDetail = { serverElapsedMs, source: 'script' }
+  // Runs while the browser parses the streamed chunk, which is as close to its arrival as the page can observe
+  const script = `performance.mark(${JSON.stringify(name)},{detail:${JSON.stringify(detail)}})`
+
+  return <script dangerouslySetInnerHTML={{ __html: script }} suppressHydrationWarning />
+}
+
+export default ChunkMarker
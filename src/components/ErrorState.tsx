@@ -0,0 +1,47 @@
+'use client'
+
+import { startTransition } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+interface ErrorStateProps {
+  title: string
+  error: Error & { digest?: string }
+  reset: () => void
+}
+
+const ErrorState = ({ title, error, reset }: ErrorStateProps) => {
+  const router = useRouter()
+
+  // reset() alone only re-renders on the client, refreshing fetches the server components again
+  const handleRetry = () => {
+    startTransition(() => {
+      router.refresh()
+      reset()
+    })
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-20 text-center">
+      <h1 className="text-4xl font-bold text-white mb-4">{title}</h1>
+      <p className="text-lg text-gray-300 mb-2">{error.message || 'An unexpected error occurred.'}</p>
+      {/* Production builds hide server error messages, the digest matches the entry in the server logs */}
+      {error.digest && <p className="text-sm text-gray-500 font-mono mb-8">Digest: {error.digest}</p>}
+      <div className="flex flex-col sm:flex-row gap-4 justify-center mt-8">
+        <Button size="lg" onClick={handleRetry} className="bg-blue-600 hover:bg-blue-700 text-white cursor-pointer">
+          <RefreshCw className="w-5 h-5 mr-2" />
+          Try Again
+        </Button>
+        <Link href="/">
+          <Button size="lg" variant="outline" className="hover:bg-gray-700 text-white cursor-pointer">
+            Back to Home
+          </Button>
+        </Link>
+      </div>
+    </div>
+  )
+}
+
+export default ErrorState
@@ -1,49 +1,17 @@
 import FeatureCard from './FeatureCard'
+import { demos } from '@/lib/demos'
 
 const Features = () => {
-  const features = [
-    {
-      title: "Server-Side Rendering (SSR)",
-      description: "Real-time rendering through the server after each request",
-      demoLink: "/ssr"
-    },
-    {
-      title: "Incremental Static Regeneration (ISR)",
-      description: "Static generation + scheduled incremental updates",
-      demoLink: "/isr"
-    },
-    {
-      title: "Static Site Generation (SSG)",
-      description: "Pre-generate all pages at build time",
-      demoLink: "/ssg"
-    },
-    {
-      title: "Streaming",
-      description: "Step-by-step rendering of page content, enhancing user experience",
-      demoLink: "/streaming"
-    },
-    {
-      title: "Node Functions",
-      description: "Run code in Node Runtime, no server management required",
-      demoLink: "/node-functions"
-    },
-    {
-      title: "Edge Functions",
-      description: "Run code in Edge Runtime, no server management required",
-      demoLink: "/edge-functions"
-    }
-  ]
-
   return (
     <section className="w-full pb-20 bg-black">
       <div className="container mx-auto px-4">
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 max-w-6xl mx-auto">
-          {features.map((feature, index) => (
+          {demos.map(demo => (
             <FeatureCard
-              key={index}
-              title={feature.title}
-              description={feature.description}
-              demoLink={feature.demoLink}
+              key={demo.route}
+              title={demo.title}
+              description={demo.description}
+              demoLink={demo.route}
             />
           ))}
         </div>
@@ -0,0 +1,236 @@
+'use client'
+
+import { useState } from 'react'
+import { Play } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  buildPath,
+  formatResponseBody,
+  getPathParamNames,
+  HTTP_METHODS,
+  methodAllowsBody,
+  sendPlaygroundRequest,
+  type HttpMethod,
+  type PlaygroundRequest,
+  type PlaygroundResponse
+} from '@/lib/playground'
+
+interface FunctionPlaygroundProps {
+  // Path params are written as :name, e.g. /params/:id
+  defaultPath: string
+  defaultMethod?: HttpMethod
+  defaultPathParams?: Record<string, string>
+  defaultHeaders?: string
+  defaultBody?: string
+  methods?: readonly HttpMethod[]
+}
+
+interface HistoryEntry {
+  id: number
+  sentAt: string
+  request: PlaygroundRequest
+  response?: PlaygroundResponse
+  errorMessage?: string
+}
+
+const MAX_HISTORY = 10
+
+const inputClassName = 'w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-sm text-white font-mono'
+
+const getStatusColor = (status: number) => {
+  if (status >= 500) return 'bg-red-600 text-white'
+  if (status >= 400) return 'bg-orange-600 text-white'
+  if (status >= 300) return 'bg-yellow-600 text-white'
+  return 'bg-green-600 text-white'
+}
+
+const FunctionPlayground = ({
+  defaultPath,
+  defaultMethod = 'GET',
+  defaultPathParams = {},
+  defaultHeaders = '',
+  defaultBody = '',
+  methods = HTTP_METHODS
+}: FunctionPlaygroundProps) => {
+  const [request, setRequest] = useState<PlaygroundRequest>({
+    method: defaultMethod,
+    pathTemplate: defaultPath,
+    pathParams: defaultPathParams,
+    headers: defaultHeaders,
+    body: defaultBody
+  })
+  const [isLoading, setIsLoading] = useState(false)
+  const [history, setHistory] = useState<HistoryEntry[]>([])
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+
+  const update = (changes: Partial<PlaygroundRequest>) => setRequest(previous => ({ ...previous, ...changes }))
+  const pathParamNames = getPathParamNames(request.pathTemplate)
+  const selected = history.find(entry => entry.id === selectedId)
+
+  const handleSend = async () => {
+    setIsLoading(true)
+    const entry: HistoryEntry = { id: Date.now(), sentAt: new Date().toISOString(), request }
+
+    try {
+      entry.response = await sendPlaygroundRequest(request)
+    } catch (error) {
+      entry.errorMessage = error instanceof Error ? error.message : String(error)
+    } finally {
+      setHistory(previous => [entry, ...previous].slice(0, MAX_HISTORY))
+      setSelectedId(entry.id)
+      setIsLoading(false)
+    }
+  }
+
+  const handleRestore = (entry: HistoryEntry) => {
+    setRequest(entry.request)
+    setSelectedId(entry.id)
+  }
+
+  return (
+    <div className="text-left space-y-6">
+      {/* Request editor */}
+      <div className="space-y-3">
+        <div className="flex flex-col md:flex-row gap-3">
+          <select
+            value={request.method}
+            onChange={event => update({ method: event.target.value as HttpMethod })}
+            className="bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-sm text-white"
+          >
+            {methods.map(method => (
+              <option key={method} value={method}>{method}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={request.pathTemplate}
+            onChange={event => update({ pathTemplate: event.target.value })}
+            className={`${inputClassName} flex-1`}
+          />
+          <Button
+            onClick={handleSend}
+            disabled={isLoading}
+            className="bg-[#1c66e5] hover:bg-[#1c66e5]/90 text-white cursor-pointer"
+          >
+            {isLoading ? (
+              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+            ) : (
+              <Play className="w-4 h-4 mr-2" />
+            )}
+            Execute API Call
+          </Button>
+        </div>
+
+        {pathParamNames.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {pathParamNames.map(name => (
+              <label key={name} className="text-sm text-gray-300">
+                :{name}
+                <input
+                  type="text"
+                  value={request.pathParams[name] ?? ''}
+                  onChange={event => update({ pathParams: { ...request.pathParams, [name]: event.target.value } })}
+                  className={`${inputClassName} mt-1`}
+                />
+              </label>
+            ))}
+          </div>
+        )}
+
+        <p className="text-sm text-gray-400">
+          <span className="text-blue-400">Request URL:</span>{' '}
+          <span className="font-mono">{buildPath(request.pathTemplate, request.pathParams)}</span>
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <label className="text-sm text-gray-300">
+            Headers, one &quot;Name: value&quot; per line
+            <textarea
+              rows={4}
+              value={request.headers}
+              onChange={event => update({ headers: event.target.value })}
+              placeholder="Content-Type: application/json"
+              className={`${inputClassName} mt-1`}
+            />
+          </label>
+          <label className="text-sm text-gray-300">
+            Body {!methodAllowsBody(request.method) && `(not sent with ${request.method})`}
+            <textarea
+              rows={4}
+              value={request.body}
+              onChange={event => update({ body: event.target.value })}
+              disabled={!methodAllowsBody(request.method)}
+              placeholder='{ "name": "EdgeOne" }'
+              className={`${inputClassName} mt-1 disabled:opacity-50`}
+            />
+          </label>
+        </div>
+      </div>
+
+      {/* Response */}
+      {selected && (
+        <div className="bg-gray-900 rounded-lg p-4 text-sm">
+          {selected.response ? (
+            <>
+              <div className="flex flex-wrap items-center gap-3 mb-4">
+                <span className={`px-2 py-1 rounded font-medium ${getStatusColor(selected.response.status)}`}>
+                  {selected.response.status} {selected.response.statusText}
+                </span>
+                <span className="text-gray-300">
+                  <span className="text-blue-400">Round Trip:</span> {selected.response.roundTripMs}ms
+                </span>
+                <span className="text-gray-400 font-mono">
+                  {selected.request.method} {buildPath(selected.request.pathTemplate, selected.request.pathParams)}
+                </span>
+              </div>
+
+              <h4 className="text-white font-semibold mb-2">Response Headers</h4>
+              <div className="space-y-1 mb-4">
+                {selected.response.headers.map(([name, value]) => (
+                  <p key={name} className="grid grid-cols-1 md:grid-cols-3 gap-1 font-mono">
+                    <span className="text-blue-400">{name}</span>
+                    <span className="md:col-span-2 text-gray-300 break-all">{value}</span>
+                  </p>
+                ))}
+              </div>
+
+              <h4 className="text-white font-semibold mb-2">Function Return</h4>
+              <pre className="bg-black/40 rounded p-3 text-gray-200 overflow-x-auto">
+                {formatResponseBody(selected.response.body) || '(empty body)'}
+              </pre>
+            </>
+          ) : (
+            <p className="text-red-400">{selected.errorMessage}</p>
+          )}
+        </div>
+      )}
+
+      {/* History */}
+      {history.length > 0 && (
+        <div>
+          <h4 className="text-white font-semibold mb-2">Request History</h4>
+          <ul className="space-y-1 text-sm">
+            {history.map(entry => (
+              <li key={entry.id}>
+                <button
+                  onClick={() => handleRestore(entry)}
+                  className={`w-full flex flex-wrap gap-3 px-3 py-2 rounded-md text-left cursor-pointer hover:bg-gray-700 ${entry.id === selectedId ? 'bg-gray-700' : ''}`}
+                >
+                  <span className="text-gray-500">{new Date(entry.sentAt).toLocaleTimeString()}</span>
+                  <span className="text-white font-mono">
+                    {entry.request.method} {buildPath(entry.request.pathTemplate, entry.request.pathParams)}
+                  </span>
+                  <span className={entry.response ? 'text-green-400' : 'text-red-400'}>
+                    {entry.response ? `${entry.response.status} in ${entry.response.roundTripMs}ms` : 'failed'}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default FunctionPlayground
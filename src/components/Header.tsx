@@ -4,6 +4,7 @@ import Link from 'next/link'
 import { useState } from 'react'
 import { NavigationMenu, NavigationMenuItem, NavigationMenuList, NavigationMenuViewport } from '@/components/ui/navigation-menu'
 import { cn } from '@/lib/utils'
+import { demos } from '@/lib/demos'
 
 const Header = () => {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
@@ -14,12 +15,7 @@ const Header = () => {
 
   const navigationItems = [
     { href: '/', label: 'Home' },
-    { href: '/ssr', label: 'SSR' },
-    { href: '/isr', label: 'ISR' },
-    { href: '/ssg', label: 'SSG' },
-    { href: '/streaming', label: 'Streaming' },
-    { href: '/node-functions', label: 'Node Functions' },
-    { href: '/edge-functions', label: 'Edge Functions' },
+    ...demos.map(demo => ({ href: demo.route, label: demo.label }))
   ]
 
   return (
@@ -0,0 +1,146 @@
+'use client'
+
+import { useState } from 'react'
+import { Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  EDGEONE_HEADER_DESCRIPTIONS,
+  EDGEONE_HEADER_PREFIXES,
+  findCacheContradictions,
+  INSPECTED_HEADERS
+} from '@/lib/cache-headers'
+import type { RenderMode } from '@/lib/demos'
+import { parseServerTiming, STREAMED_TIMING_ATTRIBUTE, type ServerTimingEntry } from '@/lib/server-timing'
+
+interface HeaderInspectorProps {
+  renderMode: RenderMode
+}
+
+interface Inspection {
+  status: number
+  fetchedAt: string
+  headers: Record<string, string>
+  streamedTiming: ServerTimingEntry[]
+}
+
+// Timings a streamed page wrote into its body after the headers were sent, e.g. the /ssr probes
+const getStreamedTiming = (html: string) =>
+  Array.from(new DOMParser().parseFromString(html, 'text/html').querySelectorAll(`[${STREAMED_TIMING_ATTRIBUTE}]`))
+    .flatMap(element => parseServerTiming(element.getAttribute(STREAMED_TIMING_ATTRIBUTE)))
+
+const HeaderInspector = ({ renderMode }: HeaderInspectorProps) => {
+  const [isLoading, setIsLoading] = useState(false)
+  const [inspection, setInspection] = useState<Inspection | null>(null)
+  const [errorMessage, setErrorMessage] = useState('')
+
+  const handleInspect = async () => {
+    setIsLoading(true)
+    setErrorMessage('')
+
+    try {
+      // no-store skips the browser cache only, CDN and Next.js caches still answer as usual
+      const res = await fetch(window.location.href, { cache: 'no-store' })
+      const isHtml = res.headers.get('content-type')?.includes('text/html')
+      const html = isHtml ? await res.text() : ''
+      if (!isHtml) await res.body?.cancel()
+      setInspection({
+        status: res.status,
+        fetchedAt: new Date().toISOString(),
+        headers: Object.fromEntries(res.headers),
+        streamedTiming: getStreamedTiming(html)
+      })
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : String(error))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const edgeOneHeaders = inspection
+    ? Object.entries(inspection.headers).filter(([name]) => EDGEONE_HEADER_PREFIXES.some(prefix => name.startsWith(prefix)))
+    : []
+  const contradictions = inspection ? findCacheContradictions(renderMode, inspection.headers) : []
+  const headerTiming = parseServerTiming(inspection?.headers['server-timing'] ?? null)
+  const serverTiming = [...headerTiming, ...(inspection?.streamedTiming ?? [])]
+  const slowestTiming = Math.max(...serverTiming.map(entry => entry.durationMs), 1)
+
+  return (
+    <div className="mb-6 text-left">
+      <Button
+        onClick={handleInspect}
+        disabled={isLoading}
+        variant="outline"
+        className="hover:bg-gray-700 text-white cursor-pointer"
+      >
+        {isLoading ? (
+          <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+        ) : (
+          <Search className="w-4 h-4 mr-2" />
+        )}
+        Inspect Response Headers
+      </Button>
+
+      {errorMessage && <p className="text-red-400 text-sm mt-2">{errorMessage}</p>}
+
+      {inspection && (
+        <div className="mt-4 bg-gray-900 rounded-lg p-4 text-sm">
+          <p className="text-gray-400 mb-3">
+            HTTP {inspection.status} at {inspection.fetchedAt}
+          </p>
+
+          {contradictions.length > 0 && (
+            <div className="mb-4 p-3 bg-red-600/20 border border-red-600 rounded-lg">
+              <p className="text-red-400 font-semibold mb-1">Headers contradict the {renderMode} render mode</p>
+              {contradictions.map((message, index) => (
+                <p key={index} className="text-gray-300">• {message}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {INSPECTED_HEADERS.map(({ name, description }) => (
+              <div key={name} className="grid grid-cols-1 md:grid-cols-3 gap-1 border-b border-gray-800 pb-2">
+                <span className="text-blue-400 font-mono">{name}</span>
+                <span className={`font-mono break-all ${inspection.headers[name] ? 'text-white' : 'text-gray-500'}`}>
+                  {inspection.headers[name] ?? 'not present'}
+                </span>
+                <span className="text-gray-400">{description}</span>
+              </div>
+            ))}
+            {edgeOneHeaders.map(([name, value]) => (
+              <div key={name} className="grid grid-cols-1 md:grid-cols-3 gap-1 border-b border-gray-800 pb-2">
+                <span className="text-pink-400 font-mono">{name}</span>
+                <span className="font-mono break-all text-white">{value}</span>
+                <span className="text-gray-400">{EDGEONE_HEADER_DESCRIPTIONS[name] ?? 'EdgeOne platform header'}</span>
+              </div>
+            ))}
+          </div>
+
+          {serverTiming.length > 0 && (
+            <div className="mt-4">
+              <p className="text-white font-semibold mb-2">Server Timing</p>
+              {inspection.streamedTiming.length > 0 && (
+                <p className="text-gray-400 mb-2">
+                  {headerTiming.length} from the Server-Timing header, {inspection.streamedTiming.length} streamed in the page body after the headers were sent
+                </p>
+              )}
+              <div className="space-y-1">
+                {serverTiming.map((entry, index) => (
+                  <div key={`${entry.name}-${index}`} className="grid grid-cols-1 md:grid-cols-3 gap-1 items-center">
+                    <span className="text-blue-400 font-mono">{entry.description ?? entry.name}</span>
+                    <div className="md:col-span-2 flex items-center gap-2">
+                      <div className="h-2 bg-blue-500 rounded" style={{ width: `${(entry.durationMs / slowestTiming) * 100}%` }} />
+                      <span className="text-gray-300 font-mono whitespace-nowrap">{entry.durationMs}ms</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default HeaderInspector
@@ -0,0 +1,154 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Pause, Play } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+interface IsrTimelineProps {
+  buildTime: string
+  revalidateSeconds: number
+  pollIntervalMs?: number
+}
+
+interface ServedRender {
+  buildTime: string
+  servedAt: number
+  cacheStatus: string | null
+  age: string | null
+}
+
+interface Regeneration {
+  buildTime: string
+  previousBuildTime: string
+  detectedAt: number
+}
+
+// The component renders its own marker, so polling the page is enough to learn which render was served
+const BUILD_TIME_PATTERN = /data-isr-build-time="([^"]+)"/
+const MAX_HISTORY = 8
+
+const formatTime = (time: number | string) => new Date(time).toLocaleTimeString()
+
+const IsrTimeline = ({ buildTime, revalidateSeconds, pollIntervalMs = 2000 }: IsrTimelineProps) => {
+  const [latest, setLatest] = useState<ServedRender>({ buildTime, servedAt: 0, cacheStatus: null, age: null })
+  const [history, setHistory] = useState<Regeneration[]>([])
+  const [isPolling, setIsPolling] = useState(true)
+  // Left empty until mounted so the server and client render the same markup
+  const [now, setNow] = useState<number | null>(null)
+  const lastBuildTime = useRef(buildTime)
+
+  const record = useCallback((render: ServedRender) => {
+    if (render.buildTime !== lastBuildTime.current) {
+      const regeneration = {
+        buildTime: render.buildTime,
+        previousBuildTime: lastBuildTime.current,
+        detectedAt: render.servedAt
+      }
+      setHistory(previous => [regeneration, ...previous].slice(0, MAX_HISTORY))
+      lastBuildTime.current = render.buildTime
+    }
+    setLatest(render)
+  }, [])
+
+  // Picks up renders delivered by router.refresh(), e.g. after on-demand revalidation
+  useEffect(() => {
+    record({ buildTime, servedAt: Date.now(), cacheStatus: null, age: null })
+  }, [buildTime, record])
+
+  useEffect(() => {
+    setNow(Date.now())
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  useEffect(() => {
+    if (!isPolling) return
+
+    const poll = async () => {
+      try {
+        const res = await fetch(window.location.pathname, { cache: 'no-store' })
+        const match = (await res.text()).match(BUILD_TIME_PATTERN)
+        if (!match) return
+
+        record({
+          buildTime: match[1],
+          servedAt: Date.now(),
+          cacheStatus: res.headers.get('x-nextjs-cache'),
+          age: res.headers.get('age')
+        })
+      } catch {
+        // A failed poll is simply skipped, the next one will catch up
+      }
+    }
+
+    const timer = setInterval(poll, pollIntervalMs)
+    return () => clearInterval(timer)
+  }, [isPolling, pollIntervalMs, record])
+
+  const ageSeconds = now === null ? null : Math.max(0, (now - Date.parse(latest.buildTime)) / 1000)
+  const isStale = ageSeconds !== null && ageSeconds > revalidateSeconds
+  const progress = ageSeconds === null ? 0 : Math.min(ageSeconds / revalidateSeconds, 1) * 100
+
+  return (
+    <div className="p-4 bg-gray-700 rounded-lg text-left">
+      <span hidden data-isr-build-time={buildTime} />
+
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="text-lg font-medium text-white">Staleness Timeline</h4>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setIsPolling(!isPolling)}
+          className="hover:bg-gray-600 text-white cursor-pointer"
+        >
+          {isPolling ? <Pause className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
+          {isPolling ? 'Pause polling' : 'Resume polling'}
+        </Button>
+      </div>
+      <p className="text-sm text-gray-300 mb-4">
+        Polls this page every {pollIntervalMs / 1000}s and compares the age of the served render with the {revalidateSeconds}s revalidate window.
+      </p>
+
+      <div className="h-3 w-full bg-gray-900 rounded-full overflow-hidden mb-2">
+        <div
+          className={`h-full transition-all duration-1000 ${isStale ? 'bg-yellow-500' : 'bg-green-500'}`}
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm mb-4">
+        <p className="text-gray-300">
+          <span className="text-blue-400">Served Build Time:</span> {latest.buildTime}
+        </p>
+        <p className="text-gray-300">
+          <span className="text-blue-400">Render Age:</span> {ageSeconds === null ? '-' : `${ageSeconds.toFixed(0)}s`}
+        </p>
+        <p className={isStale ? 'text-yellow-400' : 'text-green-400'}>
+          <span className="text-blue-400">Window:</span>{' '}
+          {isStale ? 'Stale, the next request regenerates it in the background' : 'Fresh, served straight from the cache'}
+        </p>
+        <p className="text-gray-300">
+          <span className="text-blue-400">Last Poll:</span>{' '}
+          {latest.servedAt ? `x-nextjs-cache ${latest.cacheStatus ?? 'n/a'}, Age ${latest.age ?? 'n/a'}` : 'waiting...'}
+        </p>
+      </div>
+
+      <h5 className="text-sm font-semibold text-white mb-2">Regenerations</h5>
+      {history.length === 0 ? (
+        <p className="text-sm text-gray-400">No background regeneration observed yet.</p>
+      ) : (
+        <ul className="text-sm text-gray-300 space-y-1">
+          {history.map(regeneration => (
+            <li key={regeneration.buildTime}>
+              • <span className="text-green-400">{formatTime(regeneration.detectedAt)}</span> new build{' '}
+              {regeneration.buildTime}, previous render lived{' '}
+              {((Date.parse(regeneration.buildTime) - Date.parse(regeneration.previousBuildTime)) / 1000).toFixed(0)}s
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default IsrTimeline
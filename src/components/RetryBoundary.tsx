@@ -0,0 +1,60 @@
+'use client'
+
+import { Component, startTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+
+interface RetryBoundaryProps {
+  label: string
+  children: React.ReactNode
+}
+
+interface RetryBoundaryState {
+  error: Error | null
+}
+
+const RetryFallback = ({ label, error, onReset }: { label: string; error: Error; onReset: () => void }) => {
+  const router = useRouter()
+
+  const handleRetry = () => {
+    startTransition(() => {
+      router.refresh()
+      onReset()
+    })
+  }
+
+  return (
+    <div className="bg-red-600/20 border border-red-600 rounded-lg p-4 text-left">
+      <h3 className="text-red-400 font-semibold mb-2">{label} failed</h3>
+      <p className="text-sm text-gray-300 mb-3">{error.message}</p>
+      <Button size="sm" onClick={handleRetry} className="bg-red-600 hover:bg-red-700 text-white cursor-pointer">
+        Retry
+      </Button>
+    </div>
+  )
+}
+
+// Keeps a failing Suspense region from taking down the rest of the page, unlike error.tsx which replaces the segment
+class RetryBoundary extends Component<RetryBoundaryProps, RetryBoundaryState> {
+  state: RetryBoundaryState = { error: null }
+
+  static getDerivedStateFromError(error: Error): RetryBoundaryState {
+    return { error }
+  }
+
+  render() {
+    if (this.state.error) {
+      return (
+        <RetryFallback
+          label={this.props.label}
+          error={this.state.error}
+          onReset={() => this.setState({ error: null })}
+        />
+      )
+    }
+
+    return this.props.children
+  }
+}
+
+export default RetryBoundary
@@ -0,0 +1,134 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+interface RevalidateControlProps {
+  buildTime: string
+  path: string
+  tag: string
+}
+
+type RevalidateTarget = 'path' | 'tag'
+
+// Regeneration happens on the request after revalidation, so give it a few refreshes to land
+const MAX_REFRESH_ATTEMPTS = 5
+const REFRESH_INTERVAL_MS = 1500
+
+const RevalidateControl = ({ buildTime, path, tag }: RevalidateControlProps) => {
+  const router = useRouter()
+  const [secret, setSecret] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [message, setMessage] = useState('')
+  const [previousBuildTime, setPreviousBuildTime] = useState<string | null>(null)
+  const [awaitingBuild, setAwaitingBuild] = useState(false)
+  const [refreshAttempts, setRefreshAttempts] = useState(0)
+
+  useEffect(() => {
+    if (!awaitingBuild) return
+
+    if (buildTime !== previousBuildTime) {
+      setMessage('Page regenerated with a new build time')
+      setAwaitingBuild(false)
+      setIsLoading(false)
+      return
+    }
+
+    if (refreshAttempts >= MAX_REFRESH_ATTEMPTS) {
+      setMessage('Revalidated, but no new build was served yet. Reload the page in a moment.')
+      setAwaitingBuild(false)
+      setIsLoading(false)
+      return
+    }
+
+    const timer = setTimeout(() => {
+      setRefreshAttempts(attempts => attempts + 1)
+      router.refresh()
+    }, REFRESH_INTERVAL_MS)
+
+    return () => clearTimeout(timer)
+  }, [awaitingBuild, buildTime, previousBuildTime, refreshAttempts, router])
+
+  const handleRevalidate = async (target: RevalidateTarget) => {
+    setIsLoading(true)
+    setMessage('')
+
+    try {
+      const res = await fetch('/api/revalidate/', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-revalidate-secret': secret
+        },
+        body: JSON.stringify(target === 'path' ? { path } : { tag })
+      })
+      const payload = await res.json()
+
+      if (!res.ok) {
+        setMessage(payload.error?.message || `Revalidation failed with HTTP ${res.status}`)
+        setIsLoading(false)
+        return
+      }
+
+      setMessage(`Revalidated ${target} "${target === 'path' ? path : tag}", waiting for the new build...`)
+      setPreviousBuildTime(buildTime)
+      setRefreshAttempts(0)
+      setAwaitingBuild(true)
+      router.refresh()
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : String(error))
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="p-4 bg-gray-700 rounded-lg text-left">
+      <h4 className="text-lg font-medium text-white mb-2">On-Demand Revalidation</h4>
+      <p className="text-sm text-gray-300 mb-4">
+        Invalidate the cached page or its tagged fetches right away instead of waiting for the revalidate window.
+      </p>
+
+      <div className="flex flex-col md:flex-row gap-3 mb-4">
+        <input
+          type="password"
+          value={secret}
+          onChange={event => setSecret(event.target.value)}
+          placeholder="REVALIDATE_SECRET"
+          className="flex-1 bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-sm text-white placeholder:text-gray-500"
+        />
+        <Button
+          onClick={() => handleRevalidate('path')}
+          disabled={isLoading || !secret}
+          className="bg-[#1c66e5] hover:bg-[#1c66e5]/90 text-white cursor-pointer"
+        >
+          <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          Revalidate {path}
+        </Button>
+        <Button
+          onClick={() => handleRevalidate('tag')}
+          disabled={isLoading || !secret}
+          variant="outline"
+          className="hover:bg-gray-600 text-white cursor-pointer"
+        >
+          Revalidate tag {tag}
+        </Button>
+      </div>
+
+      <div className="text-sm space-y-1">
+        {previousBuildTime && (
+          <p className="text-gray-400">
+            <span className="text-blue-400">Previous Build Time:</span> {previousBuildTime}
+          </p>
+        )}
+        <p className="text-gray-300">
+          <span className="text-blue-400">Current Build Time:</span> {buildTime}
+        </p>
+        {message && <p className="text-yellow-400">{message}</p>}
+      </div>
+    </div>
+  )
+}
+
+export default RevalidateControl
@@ -0,0 +1,61 @@
+import { Button } from '@/components/ui/button'
+import { STREAMING_LAB_LIMITS, type StreamingLabConfig } from '@/lib/streaming'
+
+interface StreamingLabFormProps {
+  config: StreamingLabConfig
+}
+
+const inputClassName = 'w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-sm text-white'
+
+// A plain GET form, so the lab works before hydration and every run has a shareable URL
+const StreamingLabForm = ({ config }: StreamingLabFormProps) => {
+  return (
+    <form method="get" className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end mb-6 text-left">
+      <label className="text-sm text-gray-300">
+        Boundaries (1-{STREAMING_LAB_LIMITS.maxBoundaries})
+        <input
+          type="number"
+          name="boundaries"
+          min={1}
+          max={STREAMING_LAB_LIMITS.maxBoundaries}
+          defaultValue={config.boundaries}
+          className={`${inputClassName} mt-1`}
+        />
+      </label>
+      <label className="text-sm text-gray-300">
+        Delays in ms, comma separated
+        <input
+          type="text"
+          name="delays"
+          defaultValue={config.delays.join(',')}
+          className={`${inputClassName} mt-1`}
+        />
+      </label>
+      <label className="text-sm text-gray-300">
+        Nesting depth (1-{STREAMING_LAB_LIMITS.maxDepth})
+        <input
+          type="number"
+          name="depth"
+          min={1}
+          max={STREAMING_LAB_LIMITS.maxDepth}
+          defaultValue={config.depth}
+          className={`${inputClassName} mt-1`}
+        />
+      </label>
+      <label className="text-sm text-gray-300">
+        Failing boundaries, e.g. 2
+        <input
+          type="text"
+          name="fail"
+          defaultValue={config.fail.map(boundary => boundary + 1).join(',')}
+          className={`${inputClassName} mt-1`}
+        />
+      </label>
+      <Button type="submit" className="bg-[#1c66e5] hover:bg-[#1c66e5]/90 text-white cursor-pointer">
+        Run Streaming Lab
+      </Button>
+    </form>
+  )
+}
+
+export default StreamingLabForm
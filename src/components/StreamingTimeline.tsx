@@ -0,0 +1,90 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { getChunkMarkName, type ChunkMarkDetail, type ExpectedChunk } from '@/lib/streaming'
+
+interface StreamingTimelineProps {
+  runId: string
+  chunks: ExpectedChunk[]
+}
+
+interface ChunkArrival extends ChunkMarkDetail {
+  arrivedMs: number
+}
+
+const StreamingTimeline = ({ runId, chunks }: StreamingTimelineProps) => {
+  const [arrivals, setArrivals] = useState<Record<string, ChunkArrival>>({})
+  const [firstByteMs, setFirstByteMs] = useState<number | null>(null)
+
+  useEffect(() => {
+    const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined
+    if (navigation) setFirstByteMs(navigation.responseStart)
+
+    const markNames = new Map(chunks.map(chunk => [getChunkMarkName(runId, chunk.id), chunk.id]))
+
+    const collect = (entries: PerformanceEntryList) => {
+      const found: Record<string, ChunkArrival> = {}
+      for (const entry of entries) {
+        const chunkId = markNames.get(entry.name)
+        if (!chunkId) continue
+        found[chunkId] = { ...(entry as PerformanceMark).detail as ChunkMarkDetail, arrivedMs: entry.startTime }
+      }
+      if (Object.keys(found).length > 0) setArrivals(previous => ({ ...previous, ...found }))
+    }
+
+    // Chunks that arrived before hydration are already buffered, later ones are reported by the observer
+    collect(performance.getEntriesByType('mark'))
+    const observer = new PerformanceObserver(list => collect(list.getEntries()))
+    observer.observe({ type: 'mark' })
+    return () => observer.disconnect()
+  }, [runId, chunks])
+
+  const scaleMs = Math.max(...chunks.map(chunk => chunk.expectedMs), ...Object.values(arrivals).map(arrival => arrival.arrivedMs), 1)
+  const percent = (ms: number) => `${Math.min(ms / scaleMs, 1) * 100}%`
+
+  return (
+    <div className="mt-6 p-4 bg-gray-900 rounded-lg text-left">
+      <h3 className="text-white font-semibold mb-1">Chunk Arrival Timeline</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Milliseconds since navigation start, recorded with performance marks as each chunk is parsed.
+        {firstByteMs !== null && <> First byte arrived at {firstByteMs.toFixed(0)}ms.</>}
+      </p>
+
+      <div className="space-y-3">
+        {chunks.map(chunk => {
+          const arrival = arrivals[chunk.id]
+          return (
+            <div key={chunk.id} className="text-sm">
+              <div className="flex justify-between text-gray-300 mb-1">
+                <span>
+                  Boundary {chunk.boundary + 1}, level {chunk.level}
+                  <span className="text-gray-500"> (expected after {chunk.expectedMs}ms)</span>
+                </span>
+                <span className={arrival ? 'text-green-400' : 'text-gray-500'}>
+                  {arrival
+                    ? `arrived ${arrival.arrivedMs.toFixed(0)}ms, server ready ${arrival.serverElapsedMs}ms${arrival.source === 'effect' ? ' (mounted)' : ''}`
+                    : 'waiting...'}
+                </span>
+              </div>
+              <div className="relative h-2 bg-gray-800 rounded-full overflow-hidden">
+                {firstByteMs !== null && (
+                  <div className="absolute h-full bg-gray-600" style={{ width: percent(firstByteMs) }} />
+                )}
+                {arrival && (
+                  <div className="absolute h-full bg-purple-500 rounded-full" style={{ left: percent(arrival.arrivedMs), width: '4px' }} />
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      <p className="text-xs text-gray-500 mt-4">
+        Grey shows the time to first byte. A gap between the server ready time and the arrival time is time spent
+        buffering or in transit, for example when a proxy holds back the streamed response.
+      </p>
+    </div>
+  )
+}
+
+export default StreamingTimeline
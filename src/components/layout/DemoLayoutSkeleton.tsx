@@ -0,0 +1,58 @@
+import { getDemo, type RenderMode } from '@/lib/demos'
+
+interface DemoLayoutSkeletonProps {
+  renderMode: RenderMode
+}
+
+const SkeletonBar = ({ className }: { className: string }) => (
+  <div className={`bg-gray-800 rounded animate-pulse ${className}`} />
+)
+
+// Same structure as DemoLayout so the page does not jump once it renders
+const DemoLayoutSkeleton = ({ renderMode }: DemoLayoutSkeletonProps) => {
+  const demo = getDemo(renderMode)
+
+  return (
+    <div>
+      {/* Main title area */}
+      <div className="container mx-auto px-4 py-20 text-center">
+        <h1 className="text-5xl font-bold text-white mb-6">
+          EdgeOne Pages Next.js Starter - {renderMode}
+        </h1>
+        <SkeletonBar className="h-7 max-w-2xl mx-auto mb-4" />
+        <SkeletonBar className="h-6 max-w-3xl mx-auto mb-8" />
+        <SkeletonBar className="h-12 w-56 mx-auto" />
+      </div>
+
+      {/* Code example area */}
+      <div className="container mx-auto px-4 mb-8">
+        <div className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-lg p-8">
+          <div className="bg-gray-900 rounded p-6 space-y-3">
+            <SkeletonBar className="h-4 w-1/3" />
+            <SkeletonBar className="h-4 w-2/3" />
+            <SkeletonBar className="h-4 w-1/2" />
+            <SkeletonBar className="h-4 w-3/4" />
+          </div>
+        </div>
+      </div>
+
+      {/* Dynamic data display area */}
+      <div className="container mx-auto px-4 mb-20">
+        <div className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-lg p-8 text-center">
+          <div className={`${demo.color.badge} border rounded-lg p-4 mb-6`}>
+            <p className="text-sm">
+              {demo.icon} Loading the {renderMode} demo...
+            </p>
+          </div>
+          <div className="space-y-2 max-w-lg mx-auto">
+            <SkeletonBar className="h-5" />
+            <SkeletonBar className="h-5" />
+            <SkeletonBar className="h-5" />
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default DemoLayoutSkeleton
@@ -0,0 +1,156 @@
+import { Suspense } from 'react'
+import { REPORT_FORMATS } from '@/lib/probes'
+import type { PendingProbe, ProbeResult, ProbeStatus, ProxyVerdict } from '@/lib/probes'
+
+interface ProbeResultsProps {
+  title: string
+  results?: ProbeResult[]
+  // Each pending probe streams in through its own Suspense boundary
+  pending?: PendingProbe[]
+  // Probe suite served by /api/diagnostics, used for the download links
+  suite?: string
+  children?: React.ReactNode
+}
+
+const getStatusColor = (status: ProbeStatus) => {
+  switch (status) {
+    case 'SUCCESS': return 'bg-green-600 text-white'
+    case 'EXPECTED_ERROR': return 'bg-yellow-600 text-white'
+    case 'NETWORK_ERROR': return 'bg-red-600 text-white'
+    case 'HTTP_ERROR': return 'bg-orange-600 text-white'
+    case 'TIMEOUT': return 'bg-purple-600 text-white'
+    default: return 'bg-gray-600 text-white'
+  }
+}
+
+const getVerdictColor = (verdict: ProxyVerdict) => {
+  switch (verdict) {
+    case 'DIRECT': return 'border-green-600 text-green-400'
+    case 'PROXIED': return 'border-blue-600 text-blue-400'
+    case 'PROXY_FAILED': return 'border-red-600 text-red-400'
+    default: return 'border-gray-600 text-gray-400'
+  }
+}
+
+const ProbeResultCard = ({ result }: { result: ProbeResult }) => {
+  return (
+    <div className="border border-gray-600 rounded-lg p-4">
+      <div className="flex justify-between items-start mb-2">
+        <h4 className="text-lg font-medium text-white">{result.test}</h4>
+        <span className={`px-2 py-1 rounded text-sm font-medium ${getStatusColor(result.status)}`}>
+          {result.status}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+        {result.statusCode && (
+          <div className="text-gray-300">
+            <span className="font-medium">Status Code:</span> {result.statusCode}
+          </div>
+        )}
+        <div className="text-gray-300">
+          <span className="font-medium">Proxy Verdict:</span>{' '}
+          <span className={`px-2 py-0.5 border rounded text-xs font-medium ${getVerdictColor(result.proxy.verdict)}`}>
+            {result.proxy.verdict}
+          </span>
+        </div>
+        <div className="text-gray-300">
+          <span className="font-medium">Elapsed:</span> {result.durationMs}ms
+        </div>
+        <div className="text-gray-300">
+          <span className="font-medium">Attempts:</span> {result.attempts}
+        </div>
+        {result.abortReason && (
+          <div className="text-purple-400">
+            <span className="font-medium">Aborted By:</span> {result.abortReason === 'budget' ? 'page render budget' : 'probe timeout'}
+          </div>
+        )}
+        <div className={result.expected ? 'text-green-400' : 'text-red-400'}>
+          <span className="font-medium">Expected Outcome:</span> {result.expected ? 'met' : 'not met'}
+        </div>
+        {result.cacheInfo && (
+          <div className="text-blue-400">
+            <span className="font-medium">Cache Info:</span> {result.cacheInfo}
+          </div>
+        )}
+        <div className="text-gray-400 col-span-full">
+          <span className="font-medium text-gray-300">Proxy Evidence:</span>
+          <ul className="list-disc list-inside ml-2">
+            {result.proxy.evidence.map((item, index) => (
+              <li key={index}>{item}</li>
+            ))}
+          </ul>
+        </div>
+        {result.error && (
+          <div className="text-red-400 col-span-full">
+            <span className="font-medium">Error:</span> {result.error}
+          </div>
+        )}
+        {result.data && (
+          <div className="text-green-400 col-span-full">
+            <span className="font-medium">Data:</span> {result.data}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+const ProbeResultSkeleton = ({ name }: { name: string }) => {
+  return (
+    <div className="border border-gray-600 rounded-lg p-4">
+      <div className="flex justify-between items-start mb-2">
+        <h4 className="text-lg font-medium text-white">{name}</h4>
+        <span className="px-2 py-1 rounded text-sm font-medium bg-gray-600 text-white animate-pulse">
+          RUNNING
+        </span>
+      </div>
+      <div className="flex items-center space-x-3 text-sm text-gray-400">
+        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+        <span>Waiting for the probe to settle...</span>
+      </div>
+    </div>
+  )
+}
+
+const PendingProbeResultCard = async ({ probe }: { probe: PendingProbe }) => {
+  return <ProbeResultCard result={await probe.result} />
+}
+
+const ProbeResults = ({ title, results = [], pending = [], suite, children }: ProbeResultsProps) => {
+  return (
+    <div className="bg-gray-800 rounded-lg p-6">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h3 className="text-xl font-semibold text-white">{title}</h3>
+        {suite && (
+          <div className="text-sm text-gray-400 space-x-3">
+            <span>Download report:</span>
+            {REPORT_FORMATS.map(format => (
+              <a
+                key={format}
+                href={`/api/diagnostics/${suite}/?format=${format}&download=1`}
+                className="text-blue-400 hover:text-blue-300 uppercase"
+              >
+                {format}
+              </a>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="space-y-4">
+        {results.map((result, index) => (
+          <ProbeResultCard key={index} result={result} />
+        ))}
+        {pending.map((probe, index) => (
+          <Suspense key={index} fallback={<ProbeResultSkeleton name={probe.name} />}>
+            <PendingProbeResultCard probe={probe} />
+          </Suspense>
+        ))}
+      </div>
+
+      {children}
+    </div>
+  )
+}
+
+export default ProbeResults
@@ -1,3 +1,5 @@
 export { default as PageLayout } from './PageLayout'
 export { default as DemoLayout } from './DemoLayout'
-export { default as DataDisplay } from './DataDisplay' 
\ No newline at end of file
+export { default as DataDisplay } from './DataDisplay'
+export { default as ProbeResults } from './ProbeResults'
+export { default as DemoLayoutSkeleton } from './DemoLayoutSkeleton'
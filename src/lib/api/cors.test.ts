@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { applyCorsHeaders, createCorsPolicy, createPreflightResponse, isOriginAllowed } from './cors'
+
+const createPreflight = (origin: string, method: string, headers?: string) =>
+  new Request('http://localhost/api/hello/', {
+    method: 'OPTIONS',
+    headers: {
+      Origin: origin,
+      'Access-Control-Request-Method': method,
+      ...(headers ? { 'Access-Control-Request-Headers': headers } : {})
+    }
+  })
+
+describe('createCorsPolicy', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('matches exact origins, ignoring a trailing slash in the env', () => {
+    const policy = createCorsPolicy({ CORS_ALLOWED_ORIGINS: 'https://app.example.com/' })
+
+    expect(isOriginAllowed('https://app.example.com', policy)).toBe(true)
+    expect(isOriginAllowed('https://app.example.com:8443', policy)).toBe(false)
+    expect(isOriginAllowed('http://app.example.com', policy)).toBe(false)
+  })
+
+  it('matches wildcards against subdomains only', () => {
+    const policy = createCorsPolicy({ CORS_ALLOWED_ORIGINS: 'https://*.example.com' })
+
+    expect(isOriginAllowed('https://app.example.com', policy)).toBe(true)
+    expect(isOriginAllowed('https://a.b.example.com', policy)).toBe(true)
+    expect(isOriginAllowed('https://example.com', policy)).toBe(false)
+    expect(isOriginAllowed('https://app.example.com.evil.test', policy)).toBe(false)
+    expect(isOriginAllowed('https://app.example.com:8443', policy)).toBe(false)
+  })
+
+  it('turns /.../ entries into regular expressions', () => {
+    const policy = createCorsPolicy({ CORS_ALLOWED_ORIGINS: '/^https:\\/\\/pr-\\d+\\.example\\.com$/i' })
+
+    expect(isOriginAllowed('https://PR-42.example.com', policy)).toBe(true)
+    expect(isOriginAllowed('https://pr-x.example.com', policy)).toBe(false)
+  })
+
+  it('skips and logs a malformed regular expression', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const policy = createCorsPolicy({ CORS_ALLOWED_ORIGINS: '/[/, https://app.example.com' })
+
+    expect(policy.origins).toEqual(['https://app.example.com'])
+    expect(error).toHaveBeenCalledOnce()
+  })
+
+  it("drops '*' when credentials are allowed", () => {
+    const policy = createCorsPolicy({ CORS_ALLOWED_ORIGINS: '*, https://app.example.com', CORS_ALLOW_CREDENTIALS: 'true' })
+    const headers = applyCorsHeaders(new Headers(), new Request('http://localhost/', { headers: { Origin: 'https://app.example.com' } }), policy)
+
+    expect(policy.origins).toEqual(['https://app.example.com'])
+    expect(isOriginAllowed('https://other.example.com', policy)).toBe(false)
+    expect(headers.get('access-control-allow-origin')).toBe('https://app.example.com')
+    expect(headers.get('access-control-allow-credentials')).toBe('true')
+  })
+})
+
+describe('createPreflightResponse', () => {
+  const policy = createCorsPolicy({ CORS_ALLOWED_ORIGINS: 'https://app.example.com' })
+
+  it('allows a preflight for an allowed origin, method and headers', () => {
+    const response = createPreflightResponse(createPreflight('https://app.example.com', 'POST', 'Content-Type, X-Request-Id'), policy)
+
+    expect(response.status).toBe(204)
+    expect(response.headers.get('access-control-allow-origin')).toBe('https://app.example.com')
+    expect(response.headers.get('access-control-allow-methods')).toContain('POST')
+  })
+
+  it('leaves out the Allow headers for a header that is not allowed', () => {
+    const response = createPreflightResponse(createPreflight('https://app.example.com', 'POST', 'Content-Type, X-Custom'), policy)
+
+    expect(response.status).toBe(204)
+    expect(response.headers.get('access-control-allow-origin')).toBeNull()
+    expect(response.headers.get('access-control-allow-headers')).toBeNull()
+    expect(response.headers.get('vary')).toContain('Access-Control-Request-Headers')
+  })
+
+  it('leaves out the Allow headers for another origin or method', () => {
+    expect(createPreflightResponse(createPreflight('https://other.example.com', 'POST'), policy).headers.get('access-control-allow-origin')).toBeNull()
+    expect(createPreflightResponse(createPreflight('https://app.example.com', 'DELETE'), policy).headers.get('access-control-allow-origin')).toBeNull()
+  })
+})
@@ -0,0 +1,135 @@
+// CORS policy shared by src/middleware.ts and the withFunctionCors wrapper of the node/edge functions.
+
+// Exact origins, '*' for any origin, wildcards such as https://*.example.com, or regular expressions
+export type CorsOrigin = string | RegExp
+
+export interface CorsPolicy {
+  origins: CorsOrigin[]
+  methods: string[]
+  allowedHeaders: string[]
+  exposedHeaders: string[]
+  credentials: boolean
+  maxAgeSeconds: number
+}
+
+type CorsEnv = Record<string, string | undefined>
+
+export const DEFAULT_CORS_POLICY: CorsPolicy = {
+  origins: ['*'],
+  methods: ['GET', 'HEAD', 'POST', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'x-api-key', 'x-request-id'],
+  exposedHeaders: ['x-request-id', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After'],
+  credentials: false,
+  maxAgeSeconds: 600
+}
+
+// /^https:\/\/.+\.example\.com$/ in the env becomes a RegExp, anything else stays a string pattern.
+// A malformed regex is logged and skipped rather than failing the middleware when the module loads
+const parseOrigin = (value: string): CorsOrigin | null => {
+  const regex = value.match(/^\/(.+)\/([a-z]*)$/)
+  if (!regex) return value.replace(/\/+$/, '')
+
+  try {
+    return new RegExp(regex[1], regex[2])
+  } catch (error) {
+    console.error(`Ignoring invalid CORS_ALLOWED_ORIGINS entry "${value}"`, error)
+    return null
+  }
+}
+
+// CORS_ALLOWED_ORIGINS is a comma separated list, e.g. "https://app.example.com, https://*.example.com"
+export const createCorsPolicy = (env: CorsEnv = {}): CorsPolicy => {
+  const origins = env.CORS_ALLOWED_ORIGINS
+    ? env.CORS_ALLOWED_ORIGINS
+      .split(',')
+      .map(origin => origin.trim())
+      .filter(Boolean)
+      .map(parseOrigin)
+      .filter((origin): origin is CorsOrigin => origin !== null)
+    : DEFAULT_CORS_POLICY.origins
+  const credentials = env.CORS_ALLOW_CREDENTIALS === 'true'
+
+  return {
+    ...DEFAULT_CORS_POLICY,
+    // '*' with credentials would let any site make authenticated calls, so credentials need explicit origins
+    origins: credentials ? origins.filter(origin => origin !== '*') : origins,
+    credentials,
+    maxAgeSeconds: Number(env.CORS_MAX_AGE) || DEFAULT_CORS_POLICY.maxAgeSeconds
+  }
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+
+const matchesOrigin = (pattern: CorsOrigin, origin: string) => {
+  if (pattern instanceof RegExp) return pattern.test(origin)
+  if (pattern === '*') return true
+  if (!pattern.includes('*')) return pattern === origin
+  // Each * stands for one or more subdomain labels, it never spans the scheme or the port
+  return new RegExp(`^${escapeRegExp(pattern).replace(/\*/g, '[a-z0-9-]+(?:\\.[a-z0-9-]+)*')}$`, 'i').test(origin)
+}
+
+export const isOriginAllowed = (origin: string | null, policy: CorsPolicy): origin is string =>
+  !!origin && policy.origins.some(pattern => matchesOrigin(pattern, origin))
+
+export const isPreflightRequest = (request: Request) =>
+  request.method === 'OPTIONS' &&
+  request.headers.has('origin') &&
+  request.headers.has('access-control-request-method')
+
+const appendVary = (headers: Headers, ...names: string[]) => {
+  const vary = (headers.get('vary') ?? '').split(',').map(name => name.trim()).filter(Boolean)
+  for (const name of names) {
+    if (!vary.some(existing => existing.toLowerCase() === name.toLowerCase())) vary.push(name)
+  }
+  headers.set('vary', vary.join(', '))
+}
+
+// '*' is only sent when any origin is allowed without credentials, otherwise the origin is echoed
+const setAllowOrigin = (headers: Headers, origin: string, policy: CorsPolicy) => {
+  const anyOrigin = !policy.credentials && policy.origins.includes('*')
+  headers.set('access-control-allow-origin', anyOrigin ? '*' : origin)
+  if (policy.credentials) headers.set('access-control-allow-credentials', 'true')
+}
+
+// Adds the CORS headers for a cross-origin request to the response headers, in place
+export const applyCorsHeaders = (headers: Headers, request: Request, policy: CorsPolicy) => {
+  // Responses differ per Origin whenever the policy does, so caches must keep them apart
+  appendVary(headers, 'Origin')
+
+  const origin = request.headers.get('origin')
+  if (!isOriginAllowed(origin, policy)) return headers
+
+  setAllowOrigin(headers, origin, policy)
+  if (policy.exposedHeaders.length > 0) {
+    headers.set('access-control-expose-headers', policy.exposedHeaders.join(', '))
+  }
+  return headers
+}
+
+// 204 either way; a disallowed origin, method or header just gets no Access-Control-Allow-* headers,
+// which is what makes the browser block the actual request
+export const createPreflightResponse = (request: Request, policy: CorsPolicy) => {
+  const headers = new Headers()
+  appendVary(headers, 'Origin', 'Access-Control-Request-Method', 'Access-Control-Request-Headers')
+
+  const origin = request.headers.get('origin')
+  const method = request.headers.get('access-control-request-method')?.toUpperCase() ?? ''
+  const requestedHeaders = (request.headers.get('access-control-request-headers') ?? '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean)
+  const allowedHeaders = policy.allowedHeaders.map(name => name.toLowerCase())
+
+  if (
+    isOriginAllowed(origin, policy) &&
+    policy.methods.includes(method) &&
+    requestedHeaders.every(name => allowedHeaders.includes(name))
+  ) {
+    setAllowOrigin(headers, origin, policy)
+    headers.set('access-control-allow-methods', policy.methods.join(', '))
+    headers.set('access-control-allow-headers', policy.allowedHeaders.join(', '))
+    headers.set('access-control-max-age', String(policy.maxAgeSeconds))
+  }
+
+  return new Response(null, { status: 204, headers })
+}
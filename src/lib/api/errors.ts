@@ -0,0 +1,89 @@
+// Error envelope shared by the Next.js route handlers and the node/edge functions.
+import { getRequestId, REQUEST_ID_HEADER } from './request-id'
+
+export const API_ERROR_STATUS = {
+  BAD_REQUEST: 400,
+  INVALID_JSON: 400,
+  UNAUTHORIZED: 401,
+  NOT_FOUND: 404,
+  PAYLOAD_TOO_LARGE: 413,
+  UNSUPPORTED_MEDIA_TYPE: 415,
+  VALIDATION_FAILED: 422,
+  RATE_LIMITED: 429,
+  NOT_CONFIGURED: 500,
+  INTERNAL_ERROR: 500
+} as const
+
+export type ApiErrorCode = keyof typeof API_ERROR_STATUS
+
+export const API_ERRORS_DOCS_URL = 'https://github.com/TencentEdgeOne/next-mix-render-template#api-errors'
+
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode
+    message: string
+    details?: unknown
+    requestId: string
+    docsUrl: string
+  }
+}
+
+interface ApiErrorOptions {
+  details?: unknown
+  headers?: HeadersInit
+}
+
+export class ApiError extends Error {
+  readonly code: ApiErrorCode
+  readonly status: number
+  readonly details?: unknown
+  readonly headers?: HeadersInit
+
+  constructor(code: ApiErrorCode, message: string, { details, headers }: ApiErrorOptions = {}) {
+    super(message)
+    this.name = 'ApiError'
+    this.code = code
+    this.status = API_ERROR_STATUS[code]
+    this.details = details
+    this.headers = headers
+  }
+}
+
+// Function bundles can each carry their own copy of the class, so instanceof alone is not enough
+const isApiError = (error: unknown): error is ApiError =>
+  error instanceof ApiError || (error instanceof Error && error.name === 'ApiError' && 'code' in error && 'status' in error)
+
+export const createErrorResponse = (error: ApiError, requestId: string) => {
+  const headers = new Headers(error.headers)
+  headers.set(REQUEST_ID_HEADER, requestId)
+
+  const body: ApiErrorBody = {
+    error: {
+      code: error.code,
+      message: error.message,
+      ...(error.details !== undefined && { details: error.details }),
+      requestId,
+      docsUrl: API_ERRORS_DOCS_URL
+    }
+  }
+  return Response.json(body, { status: error.status, headers })
+}
+
+// Anything that is not an ApiError is a bug: log it under the request ID and keep the details off the wire
+export const handleApiError = (error: unknown, requestId: string) => {
+  if (isApiError(error)) return createErrorResponse(error, requestId)
+
+  console.error(`[${requestId}] Unhandled API error`, error)
+  return createErrorResponse(new ApiError('INTERNAL_ERROR', 'An unexpected error occurred'), requestId)
+}
+
+// Wraps a route handler so a thrown ApiError becomes its envelope and anything else a logged 500
+export const withErrorHandling = <Args extends [Request, ...unknown[]]>(
+  handler: (...args: Args) => Response | Promise<Response>
+) => async (...args: Args): Promise<Response> => {
+  try {
+    return await handler(...args)
+  } catch (error) {
+    return handleApiError(error, getRequestId(args[0]))
+  }
+}
@@ -0,0 +1,10 @@
+export const REQUEST_ID_HEADER = 'x-request-id'
+
+// Upstream IDs end up in logs and response headers, so only short token-like values are trusted
+export const isValidRequestId = (value: string | null): value is string => !!value && /^[\w.:-]{1,128}$/.test(value)
+
+// Reuses an ID set upstream so log lines on both sides of a proxy can be correlated
+export const getRequestId = (request: Request) => {
+  const requestId = request.headers.get(REQUEST_ID_HEADER)
+  return isValidRequestId(requestId) ? requestId : crypto.randomUUID()
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { parseJsonBody, schema } from './schema'
+
+const userSchema = schema.object({
+  name: schema.string({ minLength: 1 }),
+  age: schema.optional(schema.number({ integer: true, min: 0 })),
+  tags: schema.optional(schema.array(schema.string({ maxLength: 8 }), { maxItems: 3 })),
+  address: schema.optional(schema.object({ city: schema.string() }))
+})
+
+const createJsonRequest = (body: string, contentType = 'application/json') =>
+  new Request('http://localhost/api/test/', { method: 'POST', headers: { 'Content-Type': contentType }, body })
+
+describe('schema.object', () => {
+  it('drops keys that are not in the shape', () => {
+    expect(userSchema.parse({ name: 'Ada', role: 'admin' }, '')).toEqual({ ok: true, value: { name: 'Ada' } })
+  })
+
+  it('allows optional fields to be missing but still validates them when present', () => {
+    expect(userSchema.parse({ name: 'Ada', age: 36 }, '')).toEqual({ ok: true, value: { name: 'Ada', age: 36 } })
+    expect(userSchema.parse({ name: 'Ada', age: 1.5 }, '')).toEqual({
+      ok: false,
+      errors: [{ path: 'age', message: 'Expected an integer' }]
+    })
+  })
+
+  it('reports missing required fields and non-objects', () => {
+    expect(userSchema.parse({}, '')).toEqual({ ok: false, errors: [{ path: 'name', message: 'Required' }] })
+    expect(userSchema.parse(null, '')).toEqual({ ok: false, errors: [{ path: '(body)', message: 'Expected an object' }] })
+    expect(userSchema.parse([], '').ok).toBe(false)
+  })
+
+  it('reports every error with the dotted path into nested values', () => {
+    expect(userSchema.parse({ name: '', tags: ['a', 'b', 'far-too-long'], address: { city: 5 } }, '')).toEqual({
+      ok: false,
+      errors: [
+        { path: 'name', message: 'Must be at least 1 characters' },
+        { path: 'tags.2', message: 'Must be at most 8 characters' },
+        { path: 'address.city', message: 'Expected a string' }
+      ]
+    })
+  })
+})
+
+describe('schema.oneOrMany', () => {
+  const paths = schema.oneOrMany(schema.string({ minLength: 1 }), { maxItems: 2 })
+
+  it('always returns a list', () => {
+    expect(paths.parse('/a', 'path')).toEqual({ ok: true, value: ['/a'] })
+    expect(paths.parse(['/a', '/b'], 'path')).toEqual({ ok: true, value: ['/a', '/b'] })
+  })
+
+  it('applies the item schema and maxItems', () => {
+    expect(paths.parse(['/a', ''], 'path')).toEqual({ ok: false, errors: [{ path: 'path.1', message: 'Must be at least 1 characters' }] })
+    expect(paths.parse(['/a', '/b', '/c'], 'path').ok).toBe(false)
+  })
+})
+
+describe('parseJsonBody', () => {
+  it('returns the parsed body', async () => {
+    await expect(parseJsonBody(createJsonRequest('{"name":"Ada","extra":true}'), userSchema)).resolves.toEqual({ name: 'Ada' })
+  })
+
+  it('throws an ApiError for each kind of bad body', async () => {
+    await expect(parseJsonBody(createJsonRequest('{"name":"Ada"}', 'text/plain'), userSchema)).rejects.toMatchObject({ status: 415 })
+    await expect(parseJsonBody(createJsonRequest('{"name":'), userSchema)).rejects.toMatchObject({ code: 'INVALID_JSON' })
+    await expect(parseJsonBody(createJsonRequest('{"name":"Ada"}'), userSchema, { maxBytes: 4 })).rejects.toMatchObject({ status: 413 })
+    await expect(parseJsonBody(createJsonRequest('{"tags":[1]}'), userSchema)).rejects.toMatchObject({
+      code: 'VALIDATION_FAILED',
+      details: [
+        { path: 'name', message: 'Required' },
+        { path: 'tags.0', message: 'Expected a string' }
+      ]
+    })
+  })
+})
@@ -0,0 +1,187 @@
+// Minimal request schemas for the demo APIs. Only Web APIs are used, so it runs in the Node.js and Edge runtimes alike.
+import { ApiError } from './errors'
+
+export interface FieldError {
+  // Dotted path to the offending value, e.g. tags.2
+  path: string
+  message: string
+}
+
+type ParseResult<T> = { ok: true; value: T } | { ok: false; errors: FieldError[] }
+
+export interface Schema<T> {
+  parse: (value: unknown, path: string) => ParseResult<T>
+  optional?: boolean
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+type Shape = Record<string, Schema<unknown>>
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends { optional: true } ? K : never }[keyof S]
+
+type InferShape<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>
+}
+
+const fail = (path: string, message: string): ParseResult<never> => ({ ok: false, errors: [{ path: path || '(body)', message }] })
+
+const joinPath = (path: string, key: string | number) => (path ? `${path}.${key}` : String(key))
+
+const string = (rules: { minLength?: number; maxLength?: number; pattern?: RegExp } = {}): Schema<string> => ({
+  parse: (value, path) => {
+    if (typeof value !== 'string') return fail(path, 'Expected a string')
+    if (rules.minLength !== undefined && value.length < rules.minLength) {
+      return fail(path, `Must be at least ${rules.minLength} characters`)
+    }
+    if (rules.maxLength !== undefined && value.length > rules.maxLength) {
+      return fail(path, `Must be at most ${rules.maxLength} characters`)
+    }
+    if (rules.pattern && !rules.pattern.test(value)) return fail(path, `Must match ${rules.pattern}`)
+    return { ok: true, value }
+  }
+})
+
+const number = (rules: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> => ({
+  parse: (value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return fail(path, 'Expected a number')
+    if (rules.integer && !Number.isInteger(value)) return fail(path, 'Expected an integer')
+    if (rules.min !== undefined && value < rules.min) return fail(path, `Must be at least ${rules.min}`)
+    if (rules.max !== undefined && value > rules.max) return fail(path, `Must be at most ${rules.max}`)
+    return { ok: true, value }
+  }
+})
+
+const boolean = (): Schema<boolean> => ({
+  parse: (value, path) => (typeof value === 'boolean' ? { ok: true, value } : fail(path, 'Expected a boolean'))
+})
+
+const oneOf = <const T extends readonly string[]>(values: T): Schema<T[number]> => ({
+  parse: (value, path) =>
+    values.includes(value as string)
+      ? { ok: true, value: value as T[number] }
+      : fail(path, `Expected one of ${values.join(', ')}`)
+})
+
+const array = <T>(items: Schema<T>, rules: { maxItems?: number } = {}): Schema<T[]> => ({
+  parse: (value, path) => {
+    if (!Array.isArray(value)) return fail(path, 'Expected an array')
+    if (rules.maxItems !== undefined && value.length > rules.maxItems) {
+      return fail(path, `Must contain at most ${rules.maxItems} items`)
+    }
+
+    const errors: FieldError[] = []
+    const parsed: T[] = []
+    value.forEach((item, index) => {
+      const result = items.parse(item, joinPath(path, index))
+      if (result.ok) parsed.push(result.value)
+      else errors.push(...result.errors)
+    })
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, value: parsed }
+  }
+})
+
+// A single value or a list of them, the handler always gets a list
+const oneOrMany = <T>(items: Schema<T>, rules: { maxItems?: number } = {}): Schema<T[]> => ({
+  parse: (value, path) => {
+    if (Array.isArray(value)) return array(items, rules).parse(value, path)
+    const result = items.parse(value, path)
+    return result.ok ? { ok: true, value: [result.value] } : result
+  }
+})
+
+// Unknown keys are dropped, so only declared fields ever reach the handler
+const object = <S extends Shape>(shape: S): Schema<InferShape<S>> => ({
+  parse: (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return fail(path, 'Expected an object')
+
+    const errors: FieldError[] = []
+    const parsed: Record<string, unknown> = {}
+    for (const [key, field] of Object.entries(shape)) {
+      const fieldValue = (value as Record<string, unknown>)[key]
+      if (fieldValue === undefined) {
+        if (!field.optional) errors.push({ path: joinPath(path, key), message: 'Required' })
+        continue
+      }
+
+      const result = field.parse(fieldValue, joinPath(path, key))
+      if (result.ok) parsed[key] = result.value
+      else errors.push(...result.errors)
+    }
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, value: parsed as InferShape<S> }
+  }
+})
+
+const optional = <T>(inner: Schema<T>): Schema<T | undefined> & { optional: true } => ({
+  parse: (value, path) => (value === undefined ? { ok: true, value: undefined } : inner.parse(value, path)),
+  optional: true
+})
+
+export const schema = { string, number, boolean, oneOf, array, oneOrMany, object, optional }
+
+export const DEFAULT_MAX_BODY_BYTES = 16 * 1024
+
+const isJsonMediaType = (contentType: string | null) => {
+  const mediaType = contentType?.split(';')[0].trim().toLowerCase() ?? ''
+  return mediaType === 'application/json' || mediaType.endsWith('+json')
+}
+
+// Stops reading as soon as the limit is crossed instead of buffering an oversized body first
+const readLimitedText = async (request: Request, maxBytes: number) => {
+  if (Number(request.headers.get('content-length')) > maxBytes) return null
+  if (!request.body) return ''
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let received = 0
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    received += value.byteLength
+    if (received > maxBytes) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+
+  const bytes = new Uint8Array(received)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return new TextDecoder().decode(bytes)
+}
+
+// Throws ApiError: 415 for non-JSON media types, 413 above maxBytes, 400 for malformed JSON and 422 when the schema rejects it
+export const parseJsonBody = async <T>(
+  request: Request,
+  bodySchema: Schema<T>,
+  { maxBytes = DEFAULT_MAX_BODY_BYTES }: { maxBytes?: number } = {}
+): Promise<T> => {
+  if (!isJsonMediaType(request.headers.get('content-type'))) {
+    throw new ApiError('UNSUPPORTED_MEDIA_TYPE', 'Content-Type must be application/json', {
+      headers: { Accept: 'application/json' }
+    })
+  }
+
+  const text = await readLimitedText(request, maxBytes)
+  if (text === null) throw new ApiError('PAYLOAD_TOO_LARGE', `Request body exceeds ${maxBytes} bytes`)
+
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new ApiError('INVALID_JSON', 'Invalid JSON payload')
+  }
+
+  const result = bodySchema.parse(json, '')
+  if (!result.ok) throw new ApiError('VALIDATION_FAILED', 'Validation failed', { details: result.errors })
+
+  return result.value
+}
@@ -0,0 +1,192 @@
+export type BenchmarkMode = 'sequential' | 'concurrent'
+
+export interface BenchmarkTarget {
+  id: string
+  label: string
+  path: string
+  runtime: 'nodejs' | 'edge'
+}
+
+export interface BenchmarkConfig {
+  iterations: number
+  mode: BenchmarkMode
+  // Requests in flight at once in concurrent mode
+  concurrency: number
+}
+
+export interface BenchmarkSample {
+  index: number
+  durationMs: number
+  status: number | null
+  ok: boolean
+  error?: string
+}
+
+export interface LatencyStats {
+  count: number
+  errors: number
+  min: number
+  p50: number
+  p95: number
+  p99: number
+  max: number
+  mean: number
+}
+
+export interface HistogramBucket {
+  fromMs: number
+  toMs: number
+  count: number
+}
+
+export interface BenchmarkResult {
+  target: BenchmarkTarget
+  startedAt: string
+  totalMs: number
+  samples: BenchmarkSample[]
+  stats: LatencyStats
+  histogram: HistogramBucket[]
+  coldStarts: BenchmarkSample[]
+}
+
+// Next.js API routes end with a slash because of trailingSlash, the function routes do not
+export const BENCHMARK_TARGETS: BenchmarkTarget[] = [
+  { id: 'api-hello', label: 'Next.js API route (Node.js)', path: '/api/hello/', runtime: 'nodejs' },
+  { id: 'api-edge', label: 'Next.js API route (Edge)', path: '/api/edge/', runtime: 'edge' },
+  { id: 'hello-node', label: 'Node Function', path: '/hello-node', runtime: 'nodejs' },
+  { id: 'hello-edge', label: 'Edge Function', path: '/hello-edge', runtime: 'edge' }
+]
+
+export const BENCHMARK_LIMITS = {
+  maxIterations: 500,
+  maxConcurrency: 50
+}
+
+export const DEFAULT_BENCHMARK_CONFIG: BenchmarkConfig = {
+  iterations: 50,
+  mode: 'sequential',
+  concurrency: 10
+}
+
+const HISTOGRAM_BUCKETS = 12
+// A sample counts as a cold start when it is this many times slower than the median...
+const COLD_START_FACTOR = 3
+// ...and at least this much slower in absolute terms, so a 1ms vs 4ms blip is not flagged
+const COLD_START_MIN_GAP_MS = 50
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+// Nearest-rank percentile over an ascending list
+export const percentile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return 0
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1]
+}
+
+const successfulDurations = (samples: BenchmarkSample[]) =>
+  samples.filter(sample => sample.ok).map(sample => sample.durationMs).sort((a, b) => a - b)
+
+export const summarize = (samples: BenchmarkSample[]): LatencyStats => {
+  const durations = successfulDurations(samples)
+  const total = durations.reduce((sum, duration) => sum + duration, 0)
+
+  return {
+    count: samples.length,
+    errors: samples.length - durations.length,
+    min: round(durations[0] ?? 0),
+    p50: round(percentile(durations, 50)),
+    p95: round(percentile(durations, 95)),
+    p99: round(percentile(durations, 99)),
+    max: round(durations[durations.length - 1] ?? 0),
+    mean: round(durations.length > 0 ? total / durations.length : 0)
+  }
+}
+
+export const buildHistogram = (samples: BenchmarkSample[], bucketCount = HISTOGRAM_BUCKETS): HistogramBucket[] => {
+  const durations = successfulDurations(samples)
+  if (durations.length === 0) return []
+
+  const min = durations[0]
+  const max = durations[durations.length - 1]
+  const width = Math.max((max - min) / bucketCount, 1)
+  const buckets = Array.from({ length: bucketCount }, (_, index) => ({
+    fromMs: round(min + index * width),
+    toMs: round(min + (index + 1) * width),
+    count: 0
+  }))
+
+  for (const duration of durations) {
+    buckets[Math.min(Math.floor((duration - min) / width), bucketCount - 1)].count++
+  }
+
+  // Trailing empty buckets only appear when the spread is below 1ms per bucket
+  while (buckets.length > 1 && buckets[buckets.length - 1].count === 0) buckets.pop()
+  return buckets
+}
+
+export const findColdStarts = (samples: BenchmarkSample[]) => {
+  const median = percentile(successfulDurations(samples), 50)
+  return samples.filter(
+    sample => sample.ok && sample.durationMs > median * COLD_START_FACTOR && sample.durationMs - median >= COLD_START_MIN_GAP_MS
+  )
+}
+
+const measure = async (target: BenchmarkTarget, index: number): Promise<BenchmarkSample> => {
+  const startedAt = performance.now()
+
+  try {
+    // The query string keeps the browser and any CDN from answering out of a cache
+    const res = await fetch(`${target.path}?bench=${Date.now()}-${index}`, { cache: 'no-store' })
+    await res.arrayBuffer()
+    return { index, durationMs: round(performance.now() - startedAt), status: res.status, ok: res.ok }
+  } catch (error) {
+    return {
+      index,
+      durationMs: round(performance.now() - startedAt),
+      status: null,
+      ok: false,
+      error: error instanceof Error ? error.message : String(error)
+    }
+  }
+}
+
+export const runBenchmark = async (
+  target: BenchmarkTarget,
+  config: BenchmarkConfig,
+  onSample?: (sample: BenchmarkSample) => void
+): Promise<BenchmarkResult> => {
+  const startedAt = new Date().toISOString()
+  const started = performance.now()
+  const samples: BenchmarkSample[] = []
+  let nextIndex = 0
+
+  // Each worker keeps one request in flight, sequential mode is a single worker
+  const worker = async () => {
+    while (nextIndex < config.iterations) {
+      const sample = await measure(target, nextIndex++)
+      samples.push(sample)
+      onSample?.(sample)
+    }
+  }
+
+  const workers = config.mode === 'sequential' ? 1 : Math.min(config.concurrency, config.iterations)
+  await Promise.all(Array.from({ length: workers }, worker))
+  samples.sort((a, b) => a.index - b.index)
+
+  return {
+    target,
+    startedAt,
+    totalMs: round(performance.now() - started),
+    samples,
+    stats: summarize(samples),
+    histogram: buildHistogram(samples),
+    coldStarts: findColdStarts(samples)
+  }
+}
+
+export const createBenchmarkExport = (config: BenchmarkConfig, results: BenchmarkResult[]) => ({
+  generatedAt: new Date().toISOString(),
+  origin: typeof window === 'undefined' ? null : window.location.origin,
+  config,
+  results
+})
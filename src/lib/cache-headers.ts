@@ -0,0 +1,80 @@
+import { getDemo, type CacheStrategy, type RenderMode } from '@/lib/demos'
+
+export interface InspectedHeader {
+  name: string
+  description: string
+}
+
+export const INSPECTED_HEADERS: InspectedHeader[] = [
+  { name: 'cache-control', description: 'Caching directives for browsers and shared caches such as the EdgeOne CDN' },
+  { name: 'age', description: 'Seconds the response has already spent in a shared cache' },
+  { name: 'x-nextjs-cache', description: 'Next.js cache result for prerendered routes: HIT, STALE or MISS' },
+  { name: 'x-nextjs-prerender', description: 'Present when the response came from a prerendered (SSG/ISR) page' },
+  { name: 'vary', description: 'Request headers that select between cached variants of this URL' },
+  { name: 'etag', description: 'Validator the browser sends back in If-None-Match to get a 304' },
+  { name: 'x-request-id', description: 'Request ID assigned by the middleware, also available to server components' },
+  { name: 'server-timing', description: 'Server-side phases with their duration, also shown in the devtools Timing tab' }
+]
+
+// Anything starting with these is reported as an EdgeOne header
+export const EDGEONE_HEADER_PREFIXES = ['eo-', 'x-eo-', 'oe-']
+
+export const EDGEONE_HEADER_DESCRIPTIONS: Record<string, string> = {
+  'eo-cache-status': 'EdgeOne node cache result: HIT, MISS, EXPIRED and so on',
+  'eo-log-uuid': 'EdgeOne request ID, quote it when contacting support',
+  'oe-proxy-used': 'Set when the EdgeOne fetch proxy relayed the request'
+}
+
+type HeaderMap = Record<string, string>
+
+interface ContradictionRule {
+  test: (headers: HeaderMap) => boolean
+  message: string
+}
+
+const cacheControl = (headers: HeaderMap) => headers['cache-control']?.toLowerCase() ?? ''
+
+const maxAge = (headers: HeaderMap) => {
+  const match = cacheControl(headers).match(/(?:s-maxage|max-age)=(\d+)/)
+  return match ? Number(match[1]) : 0
+}
+
+const isNotCacheable = (headers: HeaderMap) => /no-store|private|max-age=0\b/.test(cacheControl(headers))
+
+// Header combinations that disagree with what each cache strategy promises
+const CONTRADICTION_RULES: Record<CacheStrategy, ContradictionRule[]> = {
+  'per-request': [
+    {
+      test: headers => headers['x-nextjs-cache'] === 'HIT',
+      message: 'Served from the Next.js cache although this page should render on every request'
+    },
+    {
+      test: headers => 'x-nextjs-prerender' in headers,
+      message: 'Marked as prerendered although this page is rendered per request'
+    },
+    {
+      test: headers => cacheControl(headers).includes('public') && maxAge(headers) > 0,
+      message: 'Cache-Control lets shared caches reuse this per-request response, so visitors may see another request\'s render'
+    }
+  ],
+  revalidate: [
+    {
+      test: isNotCacheable,
+      message: 'Cache-Control forbids caching, which defeats incremental static regeneration'
+    }
+  ],
+  static: [
+    {
+      test: isNotCacheable,
+      message: 'Cache-Control forbids caching a page that only changes on rebuild'
+    },
+    {
+      test: headers => headers['x-nextjs-cache'] === 'STALE',
+      message: 'Served as STALE although static pages never revalidate'
+    }
+  ],
+  none: []
+}
+
+export const findCacheContradictions = (renderMode: RenderMode, headers: HeaderMap) =>
+  CONTRADICTION_RULES[getDemo(renderMode).cachePolicy.strategy].filter(rule => rule.test(headers)).map(rule => rule.message)
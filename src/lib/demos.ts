@@ -0,0 +1,131 @@
+// Single source of truth for the demo routes. Also imported by next.config.ts,
+// so keep this file free of path aliases and runtime dependencies.
+
+export type CacheStrategy = 'per-request' | 'revalidate' | 'static' | 'none'
+
+export interface DemoCachePolicy {
+  // What the page promises about caching, checked by the header inspector
+  strategy: CacheStrategy
+  // Sent as the route's Cache-Control header by next.config.ts
+  cacheControl?: string
+}
+
+export interface DemoDefinition {
+  renderMode: string
+  route: string
+  label: string
+  title: string
+  description: string
+  icon: string
+  // Tailwind classes for the render mode badge and the matching hex colour for non-CSS contexts
+  color: { badge: string; hex: string }
+  docsUrl: string
+  cachePolicy: DemoCachePolicy
+  // Concrete URLs for the demo's dynamic segments, listed in the sitemap next to the route itself
+  dynamicPaths?: readonly string[]
+}
+
+const FRAMEWORK_DOCS_URL = 'https://pages.edgeone.ai/document/framework-nextjs'
+
+export const demos = [
+  {
+    renderMode: 'SSR',
+    route: '/ssr',
+    label: 'SSR',
+    title: 'Server-Side Rendering (SSR)',
+    description: 'Real-time rendering through the server after each request',
+    icon: '🔄',
+    color: { badge: 'bg-orange-600/20 border-orange-600 text-orange-400', hex: '#ea580c' },
+    docsUrl: FRAMEWORK_DOCS_URL,
+    cachePolicy: {
+      strategy: 'per-request',
+      cacheControl: 'public, max-age=3600, stale-while-revalidate, stale-if-error'
+    }
+  },
+  {
+    renderMode: 'ISR',
+    route: '/isr',
+    label: 'ISR',
+    title: 'Incremental Static Regeneration (ISR)',
+    description: 'Static generation + scheduled incremental updates',
+    icon: '⏱️',
+    color: { badge: 'bg-green-600/20 border-green-600 text-green-400', hex: '#16a34a' },
+    docsUrl: FRAMEWORK_DOCS_URL,
+    cachePolicy: {
+      strategy: 'revalidate',
+      cacheControl: 'public, max-age=3600, stale-while-revalidate, stale-if-error'
+    }
+  },
+  {
+    renderMode: 'SSG',
+    route: '/ssg',
+    label: 'SSG',
+    title: 'Static Site Generation (SSG)',
+    description: 'Pre-generate all pages at build time',
+    icon: '📄',
+    color: { badge: 'bg-blue-600/20 border-blue-600 text-blue-400', hex: '#2563eb' },
+    docsUrl: FRAMEWORK_DOCS_URL,
+    cachePolicy: { strategy: 'static' }
+  },
+  {
+    renderMode: 'Streaming',
+    route: '/streaming',
+    label: 'Streaming',
+    title: 'Streaming',
+    description: 'Step-by-step rendering of page content, enhancing user experience',
+    icon: '🌊',
+    color: { badge: 'bg-purple-600/20 border-purple-600 text-purple-400', hex: '#9333ea' },
+    docsUrl: FRAMEWORK_DOCS_URL,
+    cachePolicy: { strategy: 'per-request' }
+  },
+  {
+    renderMode: 'Node Functions',
+    route: '/node-functions',
+    label: 'Node Functions',
+    title: 'Node Functions',
+    description: 'Run code in Node Runtime, no server management required',
+    icon: '🖥️',
+    color: { badge: 'bg-yellow-600/20 border-yellow-600 text-yellow-400', hex: '#ca8a04' },
+    docsUrl: 'https://pages.edgeone.ai/document/node-functions',
+    cachePolicy: { strategy: 'none' }
+  },
+  {
+    renderMode: 'Edge Functions',
+    route: '/edge-functions',
+    label: 'Edge Functions',
+    title: 'Edge Functions',
+    description: 'Run code in Edge Runtime, no server management required',
+    icon: '⚡',
+    color: { badge: 'bg-pink-600/20 border-pink-600 text-pink-400', hex: '#db2777' },
+    docsUrl: 'https://pages.edgeone.ai/document/edge-functions',
+    cachePolicy: { strategy: 'none' }
+  },
+  {
+    renderMode: 'Dynamic Routes',
+    route: '/dynamic-routes',
+    label: 'Dynamic Routes',
+    title: 'Dynamic Function Routes',
+    description: 'Map [id] and [[default]] file names to parameterised function routes',
+    icon: '🧭',
+    color: { badge: 'bg-teal-600/20 border-teal-600 text-teal-400', hex: '#0d9488' },
+    docsUrl: 'https://pages.edgeone.ai/document/node-functions',
+    cachePolicy: { strategy: 'none' }
+  },
+  {
+    renderMode: 'Benchmark',
+    route: '/benchmark',
+    label: 'Benchmark',
+    title: 'Node vs Edge Benchmark',
+    description: 'Measure request latency, percentiles and cold starts across runtimes',
+    icon: '📊',
+    color: { badge: 'bg-cyan-600/20 border-cyan-600 text-cyan-400', hex: '#0891b2' },
+    docsUrl: 'https://pages.edgeone.ai/document/edge-functions',
+    cachePolicy: { strategy: 'none' }
+  }
+] as const satisfies readonly DemoDefinition[]
+
+export type Demo = (typeof demos)[number]
+export type RenderMode = Demo['renderMode']
+
+export const getDemo = (renderMode: RenderMode): Demo =>
+  demos.find(demo => demo.renderMode === renderMode)!
@@ -0,0 +1,173 @@
+import { fileURLToPath } from 'node:url'
+import { describe, expect, it } from 'vitest'
+import { createFunctionContext, emulateRequest, invokeFunction, matchFunctionRoute } from './emulator'
+import { onRequest as nodeMiddleware } from '../../../node-functions/_middleware'
+
+const NODE_FUNCTIONS = fileURLToPath(new URL('../../../node-functions', import.meta.url))
+const EDGE_FUNCTIONS = fileURLToPath(new URL('../../../edge-functions', import.meta.url))
+
+describe('matchFunctionRoute', () => {
+  it('matches static files and index files', () => {
+    expect(matchFunctionRoute('hello-node.ts', '/hello-node')).toEqual({})
+    expect(matchFunctionRoute('docs/index.ts', '/docs')).toEqual({})
+    expect(matchFunctionRoute('hello-node.ts', '/hello-edge')).toBeNull()
+  })
+
+  it('captures one segment for [id]', () => {
+    expect(matchFunctionRoute('params/[id].ts', '/params/1024')).toEqual({ id: '1024' })
+    expect(matchFunctionRoute('params/[id].ts', '/params/hello%20world')).toEqual({ id: 'hello world' })
+    expect(matchFunctionRoute('params/[id].ts', '/params')).toBeNull()
+    expect(matchFunctionRoute('params/[id].ts', '/params/1024/extra')).toBeNull()
+  })
+
+  it('captures every remaining segment for [[default]]', () => {
+    expect(matchFunctionRoute('files/[[default]].ts', '/files/docs/guides/intro')).toEqual({ default: ['docs', 'guides', 'intro'] })
+    expect(matchFunctionRoute('files/[[default]].ts', '/files')).toEqual({ default: [] })
+    expect(matchFunctionRoute('files/[[default]].ts', '/other/docs')).toBeNull()
+  })
+})
+
+describe('invokeFunction', () => {
+  const onRequestGet = () => new Response('get')
+  const onRequest = () => new Response('any')
+
+  it('prefers the method export over onRequest', async () => {
+    const get = await invokeFunction({ onRequestGet, onRequest }, { request: '/' })
+    const post = await invokeFunction({ onRequestGet, onRequest }, { request: new Request('http://localhost/', { method: 'POST' }) })
+
+    expect(await get.text()).toBe('get')
+    expect(await post.text()).toBe('any')
+  })
+
+  it('answers methods without a handler with 405 and Allow', async () => {
+    const response = await invokeFunction({ onRequestGet }, { request: new Request('http://localhost/', { method: 'DELETE' }) })
+
+    expect(response.status).toBe(405)
+    expect(response.headers.get('allow')).toBe('GET')
+  })
+})
+
+describe('_middleware chaining', () => {
+  it('runs handlers in order and lets next() replace the request', async () => {
+    const calls: string[] = []
+    const response = await invokeFunction({
+      onRequest: [
+        async ({ request, next }) => {
+          calls.push('outer')
+          return next!(new Request(request, { headers: { 'x-tagged': 'yes' } }))
+        },
+        ({ request }) => {
+          calls.push('handler')
+          return new Response(request.headers.get('x-tagged'))
+        }
+      ]
+    })
+
+    expect(calls).toEqual(['outer', 'handler'])
+    expect(await response.text()).toBe('yes')
+  })
+
+  it('answers 404 when nothing follows the last handler', async () => {
+    const response = await invokeFunction(({ next }) => next!())
+
+    expect(response.status).toBe(404)
+  })
+
+  it('answers 404 when a _middleware file is called without next', async () => {
+    const response = await nodeMiddleware({ ...createFunctionContext(), next: undefined })
+
+    expect(response.status).toBe(404)
+  })
+})
+
+describe('emulateRequest', () => {
+  it('runs the directory _middleware before the route handler', async () => {
+    const node = await emulateRequest(NODE_FUNCTIONS, { request: '/params/1024' })
+    const edge = await emulateRequest(EDGE_FUNCTIONS, { request: '/hello-edge' })
+
+    expect(node.headers.get('x-middleware')).toBe('node-functions/_middleware')
+    expect(edge.headers.get('x-middleware')).toBe('edge-functions/_middleware')
+  })
+
+  it('routes to the method exports of node-functions/hello-node.ts', async () => {
+    const get = await emulateRequest(NODE_FUNCTIONS, { request: '/hello-node' })
+    const post = await emulateRequest(NODE_FUNCTIONS, {
+      request: new Request('http://localhost:8088/hello-node', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'Vitest' })
+      })
+    })
+
+    expect(await get.text()).toBe('Hello Node!')
+    expect(get.headers.get('x-function-duration')).toMatch(/^\d+ms$/)
+    expect(await post.text()).toBe('Hello Vitest!')
+  })
+
+  it('answers unexported methods with 405 and Allow', async () => {
+    const response = await emulateRequest(NODE_FUNCTIONS, { request: new Request('http://localhost:8088/hello-node', { method: 'PUT' }) })
+
+    expect(response.status).toBe(405)
+    expect(response.headers.get('allow')).toBe('GET, POST, OPTIONS')
+  })
+
+  it('turns thrown ApiErrors into the error envelope', async () => {
+    const response = await emulateRequest(NODE_FUNCTIONS, {
+      request: new Request('http://localhost:8088/hello-node', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-request-id': 'test-request' },
+        body: JSON.stringify({ name: '' })
+      })
+    })
+
+    expect(response.status).toBe(422)
+    expect(response.headers.get('x-request-id')).toBe('test-request')
+    expect((await response.json()).error).toMatchObject({ code: 'VALIDATION_FAILED', requestId: 'test-request' })
+  })
+
+  it('answers CORS preflights through onRequestOptions', async () => {
+    const response = await emulateRequest(NODE_FUNCTIONS, {
+      request: new Request('http://localhost:8088/hello-node', {
+        method: 'OPTIONS',
+        headers: { Origin: 'https://app.example.com', 'Access-Control-Request-Method': 'POST' }
+      })
+    })
+
+    expect(response.status).toBe(204)
+    expect(response.headers.get('access-control-allow-origin')).toBe('*')
+  })
+
+  it('fills in [id] params from the path', async () => {
+    const response = await emulateRequest(NODE_FUNCTIONS, { request: '/params/1024?lang=en' })
+
+    expect(await response.json()).toMatchObject({ route: '/params/[id]', params: { id: '1024' }, query: { lang: 'en' } })
+  })
+
+  it('fills in [[default]] params from the path', async () => {
+    const nested = await emulateRequest(NODE_FUNCTIONS, { request: '/files/docs/guides/intro' })
+    const root = await emulateRequest(NODE_FUNCTIONS, { request: '/files' })
+
+    expect(await nested.json()).toMatchObject({ route: '/files/[[default]]', segments: ['docs', 'guides', 'intro'] })
+    expect(await root.json()).toMatchObject({ segments: [] })
+  })
+
+  it('keeps the legacy /id route', async () => {
+    const response = await emulateRequest(NODE_FUNCTIONS, { request: '/id?lang=en' })
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ route: '/id', params: {}, query: { lang: 'en' }, method: 'GET' })
+  })
+
+  it('returns 404 when no file matches', async () => {
+    const response = await emulateRequest(NODE_FUNCTIONS, { request: '/missing' })
+
+    expect(response.status).toBe(404)
+  })
+
+  it('passes geo to edge functions', async () => {
+    const response = await emulateRequest(EDGE_FUNCTIONS, { request: '/hello-edge', geo: { countryCodeAlpha2: 'JP' } })
+
+    expect(response.headers.get('x-edge-country')).toBe('JP')
+    expect(await response.json()).toMatchObject({ message: 'Hello Edge!', geo: { countryCodeAlpha2: 'JP' } })
+  })
+})
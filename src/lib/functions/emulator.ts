@@ -0,0 +1,223 @@
+// Runs node-functions and edge-functions handlers outside the edgeone CLI, e.g. from unit tests.
+// Node-only, never import it from the Next.js app.
+import { readdir } from 'node:fs/promises'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import type {
+  FunctionContext,
+  FunctionEnv,
+  FunctionGeo,
+  FunctionHandler,
+  FunctionHandlers,
+  FunctionModule,
+  FunctionParams
+} from './types'
+
+export interface EmulatorOptions {
+  // A full Request, or a path/URL resolved against EMULATOR_ORIGIN
+  request?: Request | string
+  params?: FunctionParams
+  env?: FunctionEnv
+  geo?: Partial<FunctionGeo>
+  clientIp?: string
+}
+
+export interface EmulatedFunctionContext extends FunctionContext {
+  next: (request?: Request) => Promise<Response>
+  // Promises handed to waitUntil, await them to let background work finish in tests
+  backgroundTasks: Promise<unknown>[]
+}
+
+export interface FunctionRouteMatch {
+  file: string
+  params: FunctionParams
+}
+
+// Same port the edgeone CLI uses for `edgeone pages dev`
+export const EMULATOR_ORIGIN = 'http://localhost:8088'
+
+export const DEFAULT_GEO: FunctionGeo = {
+  asn: 132203,
+  countryName: 'China',
+  countryCodeAlpha2: 'CN',
+  countryCodeAlpha3: 'CHN',
+  countryCodeNumeric: '156',
+  regionName: 'Guangdong',
+  regionCode: 'CN-GD',
+  cityName: 'Shenzhen',
+  latitude: 22.5431,
+  longitude: 114.0579,
+  cisp: 'Tencent'
+}
+
+const FUNCTION_EXTENSIONS = ['.ts', '.js']
+const MIDDLEWARE_NAME = '_middleware'
+
+const METHOD_EXPORTS = {
+  GET: 'onRequestGet',
+  POST: 'onRequestPost',
+  PUT: 'onRequestPut',
+  PATCH: 'onRequestPatch',
+  DELETE: 'onRequestDelete',
+  HEAD: 'onRequestHead',
+  OPTIONS: 'onRequestOptions'
+} as const satisfies Record<string, keyof FunctionModule>
+
+type MethodName = keyof typeof METHOD_EXPORTS
+
+const toRequest = (request: Request | string = '/') =>
+  typeof request === 'string' ? new Request(new URL(request, EMULATOR_ORIGIN)) : request
+
+export const createFunctionContext = (options: EmulatorOptions = {}): EmulatedFunctionContext => {
+  const backgroundTasks: Promise<unknown>[] = []
+
+  return {
+    request: toRequest(options.request),
+    params: options.params ?? {},
+    env: options.env ?? {},
+    geo: { ...DEFAULT_GEO, ...options.geo },
+    uuid: crypto.randomUUID(),
+    clientIp: options.clientIp ?? '127.0.0.1',
+    server: { region: 'local', requestId: crypto.randomUUID() },
+    waitUntil: promise => {
+      backgroundTasks.push(promise)
+    },
+    // Reached when the last handler calls next(), there is nothing behind it
+    next: async () => new Response('Not Found', { status: 404 }),
+    backgroundTasks
+  }
+}
+
+const toArray = (handlers: FunctionHandlers | undefined) =>
+  handlers === undefined ? [] : Array.isArray(handlers) ? handlers : [handlers]
+
+// Every method the module answers, sent in the Allow header of 405 responses
+export const getAllowedMethods = (functionModule: FunctionModule) =>
+  functionModule.onRequest || functionModule.default
+    ? Object.keys(METHOD_EXPORTS)
+    : Object.entries(METHOD_EXPORTS).filter(([, name]) => functionModule[name]).map(([method]) => method)
+
+// onRequestGet and friends take precedence over the catch-all onRequest
+export const getMethodHandlers = (functionModule: FunctionModule, method: string): FunctionHandler[] => {
+  const exportName = METHOD_EXPORTS[method.toUpperCase() as MethodName]
+  const handlers = toArray(exportName ? functionModule[exportName] : undefined)
+  return handlers.length > 0 ? handlers : toArray(functionModule.onRequest ?? functionModule.default)
+}
+
+const getRouteHandlers = (functionModule: FunctionModule, method: string): FunctionHandler[] => {
+  const handlers = getMethodHandlers(functionModule, method)
+  if (handlers.length > 0) return handlers
+
+  const allow = getAllowedMethods(functionModule)
+  if (allow.length === 0) throw new Error('Function module exports no onRequest handler')
+  return [() => new Response('Method Not Allowed', { status: 405, headers: { Allow: allow.join(', ') } })]
+}
+
+// Each handler gets a next() that runs the following one, so middleware can wrap the route handler
+const runHandlers = (handlers: FunctionHandler[], context: EmulatedFunctionContext) => {
+  const dispatch = async (index: number, request: Request): Promise<Response> => {
+    const handler = handlers[index]
+    if (!handler) return context.next(request)
+    return handler({ ...context, request, next: (nextRequest = request) => dispatch(index + 1, nextRequest) })
+  }
+
+  return dispatch(0, context.request)
+}
+
+export const invokeFunction = async (target: FunctionModule | FunctionHandler, options: EmulatorOptions = {}) => {
+  const context = createFunctionContext(options)
+  const handlers = typeof target === 'function' ? [target] : getRouteHandlers(target, context.request.method)
+  return runHandlers(handlers, context)
+}
+
+// TypeScript files need a runtime that can import them, e.g. tsx or vitest
+export const loadFunctionModule = async (file: string): Promise<FunctionModule> =>
+  import(/* webpackIgnore: true */ pathToFileURL(path.resolve(file)).href)
+
+// 'params/[id].ts' -> ['params', '[id]'], index files map to their directory
+const getRouteSegments = (relativeFile: string) => {
+  const withoutExtension = relativeFile.slice(0, -path.extname(relativeFile).length)
+  const segments = withoutExtension.split(path.sep)
+  return segments[segments.length - 1] === 'index' ? segments.slice(0, -1) : segments
+}
+
+export const matchFunctionRoute = (relativeFile: string, pathname: string): FunctionParams | null => {
+  const routeSegments = getRouteSegments(relativeFile)
+  const pathSegments = pathname.split('/').filter(Boolean).map(decodeURIComponent)
+  const params: FunctionParams = {}
+
+  for (const [index, segment] of routeSegments.entries()) {
+    const catchAll = segment.match(/^\[\[(\w+)\]\]$/)
+    if (catchAll) {
+      params[catchAll[1]] = pathSegments.slice(index)
+      return params
+    }
+
+    const value = pathSegments[index]
+    if (value === undefined) return null
+
+    const dynamic = segment.match(/^\[(\w+)\]$/)
+    if (dynamic) params[dynamic[1]] = value
+    else if (segment !== value) return null
+  }
+
+  return routeSegments.length === pathSegments.length ? params : null
+}
+
+// Static segments win over [param] segments, which win over [[catchAll]] segments
+const getRouteSpecificity = (relativeFile: string) =>
+  getRouteSegments(relativeFile).reduce(
+    (score, segment) => score * 3 + (segment.startsWith('[[') ? 0 : segment.startsWith('[') ? 1 : 2),
+    1
+  )
+
+const isMiddlewareFile = (relativeFile: string) =>
+  path.basename(relativeFile, path.extname(relativeFile)) === MIDDLEWARE_NAME
+
+// _middleware files from the root directory down to the route's own directory, outermost first
+const getMiddlewareFiles = (files: string[], relativeFile: string) => {
+  const directories = path.dirname(relativeFile).split(path.sep).filter(segment => segment !== '.')
+  return ['', ...directories.map((_, index) => directories.slice(0, index + 1).join(path.sep))].flatMap(directory =>
+    files.filter(file => isMiddlewareFile(file) && path.dirname(file) === (directory || '.'))
+  )
+}
+
+const listFunctionFiles = async (rootDir: string) => {
+  const entries = await readdir(rootDir, { recursive: true, withFileTypes: true })
+  return entries
+    .filter(entry => entry.isFile() && FUNCTION_EXTENSIONS.includes(path.extname(entry.name)) && !entry.name.endsWith('.d.ts'))
+    .map(entry => path.relative(rootDir, path.join(entry.parentPath, entry.name)))
+}
+
+const matchRouteFile = (files: string[], pathname: string): FunctionRouteMatch | null => {
+  const [match] = files
+    .filter(file => !isMiddlewareFile(file))
+    .map(file => ({ file, params: matchFunctionRoute(file, pathname) }))
+    .filter((match): match is FunctionRouteMatch => match.params !== null)
+    .sort((a, b) => getRouteSpecificity(b.file) - getRouteSpecificity(a.file))
+
+  return match ?? null
+}
+
+export const findFunctionRoute = async (rootDir: string, pathname: string): Promise<FunctionRouteMatch | null> => {
+  const match = matchRouteFile(await listFunctionFiles(rootDir), pathname)
+  return match ? { ...match, file: path.join(rootDir, match.file) } : null
+}
+
+// Routes a request the way EdgeOne would, e.g. emulateRequest('node-functions', { request: '/params/1024' })
+export const emulateRequest = async (rootDir: string, options: EmulatorOptions = {}) => {
+  const request = toRequest(options.request)
+  const files = await listFunctionFiles(rootDir)
+  const match = matchRouteFile(files, new URL(request.url).pathname)
+  if (!match) return new Response('Not Found', { status: 404 })
+
+  const [routeModule, ...middlewareModules] = await Promise.all(
+    [match.file, ...getMiddlewareFiles(files, match.file)].map(file => loadFunctionModule(path.join(rootDir, file)))
+  )
+  const handlers = [
+    ...middlewareModules.flatMap(middleware => getMethodHandlers(middleware, request.method)),
+    ...getRouteHandlers(routeModule, request.method)
+  ]
+
+  return runHandlers(handlers, createFunctionContext({ ...options, request, params: { ...match.params, ...options.params } }))
+}
@@ -0,0 +1,28 @@
+import type { FunctionContext } from './types'
+
+// Headers worth echoing back, the rest are mostly platform noise
+const ECHOED_HEADERS = ['accept', 'content-type', 'user-agent', 'x-forwarded-for', 'eo-connecting-ip']
+
+// JSON description of what a dynamic route received, shared by the demo functions
+export const echoRequest = ({ request, params }: FunctionContext, route: string, extra: Record<string, unknown> = {}) => {
+  const url = new URL(request.url)
+
+  const headers: Record<string, string> = {}
+  for (const name of ECHOED_HEADERS) {
+    const value = request.headers.get(name)
+    if (value !== null) headers[name] = value
+  }
+
+  return new Response(JSON.stringify({
+    route,
+    params,
+    ...extra,
+    query: Object.fromEntries(url.searchParams),
+    method: request.method,
+    headers
+  }, null, 2), {
+    headers: {
+      'Content-Type': 'application/json'
+    }
+  })
+}
@@ -0,0 +1,59 @@
+// Shapes of the context EdgeOne Pages passes to node-functions and edge-functions handlers
+
+export interface FunctionGeo {
+  asn?: number
+  countryName?: string
+  countryCodeAlpha2?: string
+  countryCodeAlpha3?: string
+  countryCodeNumeric?: string
+  regionName?: string
+  regionCode?: string
+  cityName?: string
+  latitude?: number
+  longitude?: number
+  cisp?: string
+}
+
+export interface FunctionServer {
+  region: string
+  requestId: string
+}
+
+// [id] files capture a single segment, [[default]] files capture every segment below their directory
+export type FunctionParams = Record<string, string | string[]>
+
+export type FunctionEnv = Record<string, string | undefined>
+
+export interface FunctionContext<Env extends FunctionEnv = FunctionEnv, Params extends FunctionParams = FunctionParams> {
+  request: Request
+  params: Params
+  env: Env
+  geo: FunctionGeo
+  uuid: string
+  clientIp: string
+  server: FunctionServer
+  waitUntil: (promise: Promise<unknown>) => void
+  // Runs the next _middleware or the route handler, optionally with a replaced request.
+  // Set by the local emulator; the edgeone CLI does not chain _middleware files yet, so it may be missing.
+  next?: (request?: Request) => Promise<Response>
+}
+
+export type FunctionHandler<Env extends FunctionEnv = FunctionEnv, Params extends FunctionParams = FunctionParams> = (
+  context: FunctionContext<Env, Params>
+) => Response | Promise<Response>
+
+// _middleware files may export several handlers, they run in order
+export type FunctionHandlers = FunctionHandler | FunctionHandler[]
+
+// onRequest answers every method, onRequestGet and friends only their own
+export interface FunctionModule {
+  onRequest?: FunctionHandlers
+  onRequestGet?: FunctionHandlers
+  onRequestPost?: FunctionHandlers
+  onRequestPut?: FunctionHandlers
+  onRequestPatch?: FunctionHandlers
+  onRequestDelete?: FunctionHandlers
+  onRequestHead?: FunctionHandlers
+  onRequestOptions?: FunctionHandlers
+  default?: FunctionHandlers
+}
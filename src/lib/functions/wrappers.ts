@@ -0,0 +1,60 @@
+// Wrappers for node-functions and edge-functions handlers. The edgeone CLI does not chain _middleware files,
+// so behaviour that has to hold once deployed (errors, CORS, timing headers) is wrapped around each handler.
+// Web APIs only and no path aliases, so function files can import it relatively.
+import { applyCorsHeaders, createCorsPolicy, createPreflightResponse, isPreflightRequest } from '../api/cors'
+import { handleApiError } from '../api/errors'
+import { getRequestId } from '../api/request-id'
+import type { FunctionEnv, FunctionHandler, FunctionParams } from './types'
+
+// Headers of fetched or cloned responses can be immutable, so they are set on a copy
+export const withResponseHeaders = (response: Response, headers: HeadersInit) => {
+  const merged = new Headers(response.headers)
+  new Headers(headers).forEach((value, name) => merged.set(name, value))
+  return new Response(response.body, { status: response.status, statusText: response.statusText, headers: merged })
+}
+
+// Turns a thrown ApiError into the shared error envelope and anything else into a logged 500,
+// the function counterpart of withErrorHandling for route handlers
+export const withFunctionErrorHandling = <Env extends FunctionEnv, Params extends FunctionParams>(
+  handler: FunctionHandler<Env, Params>
+): FunctionHandler<Env, Params> => async context => {
+  try {
+    return await handler(context)
+  } catch (error) {
+    return handleApiError(error, getRequestId(context.request))
+  }
+}
+
+// Reports how long the handler took in x-function-duration
+export const withFunctionDuration = <Env extends FunctionEnv, Params extends FunctionParams>(
+  handler: FunctionHandler<Env, Params>
+): FunctionHandler<Env, Params> => async context => {
+  const startedAt = Date.now()
+  const response = await handler(context)
+  return withResponseHeaders(response, { 'x-function-duration': `${Date.now() - startedAt}ms` })
+}
+
+// Tags the response with the country of the edge location that served it
+export const withEdgeCountry = <Env extends FunctionEnv, Params extends FunctionParams>(
+  handler: FunctionHandler<Env, Params>
+): FunctionHandler<Env, Params> => async context => {
+  const response = await handler(context)
+  const country = context.geo.countryCodeAlpha2
+  return country ? withResponseHeaders(response, { 'x-edge-country': country }) : response
+}
+
+// Answers CORS preflights and adds the CORS headers to every other response, the policy comes from the function's env
+export const withFunctionCors = <Env extends FunctionEnv, Params extends FunctionParams>(
+  handler: FunctionHandler<Env, Params>
+): FunctionHandler<Env, Params> => async context => {
+  const corsPolicy = createCorsPolicy(context.env)
+  if (isPreflightRequest(context.request)) return createPreflightResponse(context.request, corsPolicy)
+
+  const response = await handler(context)
+  const headers = applyCorsHeaders(new Headers(response.headers), context.request, corsPolicy)
+  return new Response(response.body, { status: response.status, statusText: response.statusText, headers })
+}
+
+// onRequestOptions for files that only export some methods, EdgeOne would answer OPTIONS with a 405 otherwise
+export const handleFunctionPreflight: FunctionHandler = ({ request, env }) =>
+  createPreflightResponse(request, createCorsPolicy(env))
@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server'
+
+// Minimal httpbin.org look-alike helpers used by the /api/mock routes
+
+export const getClientIp = (request: NextRequest) =>
+  request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+  request.headers.get('x-real-ip') ||
+  '127.0.0.1'
+
+export async function describeRequest(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const data = request.method === 'GET' || request.method === 'HEAD' ? '' : await request.text()
+
+  let json: unknown = null
+  try {
+    json = data ? JSON.parse(data) : null
+  } catch {
+    json = null
+  }
+
+  return {
+    args: Object.fromEntries(searchParams),
+    data,
+    json,
+    headers: Object.fromEntries(request.headers),
+    origin: getClientIp(request),
+    url: request.url
+  }
+}
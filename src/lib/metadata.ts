@@ -0,0 +1,28 @@
+import type { Metadata } from 'next'
+import { getDemo, type RenderMode } from '@/lib/demos'
+import { absoluteUrl, SITE_NAME } from '@/lib/site'
+
+// The Open Graph image itself is picked up from the segment's opengraph-image.tsx
+export const getDemoMetadata = (renderMode: RenderMode): Metadata => {
+  const demo = getDemo(renderMode)
+  const title = `${SITE_NAME} - ${demo.title}`
+  const url = absoluteUrl(demo.route)
+
+  return {
+    title,
+    description: demo.description,
+    alternates: { canonical: url },
+    openGraph: {
+      title,
+      description: demo.description,
+      url,
+      siteName: SITE_NAME,
+      type: 'website'
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description: demo.description
+    }
+  }
+}
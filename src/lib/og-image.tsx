@@ -0,0 +1,68 @@
+import { ImageResponse } from 'next/og'
+import { getDemo, type RenderMode } from '@/lib/demos'
+import { SITE_NAME } from '@/lib/site'
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 }
+export const OG_IMAGE_CONTENT_TYPE = 'image/png'
+
+// Same mark as public/eo-logo-blue.svg, inlined so the edge runtime does not have to fetch it
+const EdgeOneLogo = ({ size }: { size: number }) => (
+  <svg width={size} height={size} viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path
+      d="M23.8101 14.138C23.9349 13.4442 24 12.7297 24 12C24 11.3831 23.9535 10.7772 23.8637 10.1854C23.829 9.95674 23.6296 9.792 23.3983 9.792H15.6802C15.4277 9.792 15.2439 9.5525 15.3093 9.30861L16.2229 5.89892C16.2903 5.6471 16.5185 5.472 16.7792 5.472H21.3634C21.668 5.472 21.8488 5.13574 21.6682 4.89047C19.4834 1.9244 15.9664 0 12 0C5.37258 0 0 5.37258 0 12C0 15.0173 1.11361 17.7745 2.95224 19.883C3.14804 20.1076 3.5076 20.0146 3.58436 19.7268L6.23943 9.77025C6.28819 9.58741 6.15038 9.40804 5.96116 9.40804H3.65504C3.40274 9.40804 3.21899 9.16888 3.284 8.9251L4.03273 6.11736C4.0889 5.90673 4.28001 5.76117 4.49796 5.75666C7.01035 5.70465 9.49302 5.04698 11.6975 3.84351C11.9253 3.71913 12.2007 3.92739 12.1338 4.1782L7.24991 22.4929C7.17698 22.7664 7.31303 23.0538 7.57612 23.1582C8.94505 23.7014 10.4377 24 12 24C15.7878 24 19.1656 22.2451 21.3649 19.5039C21.5597 19.2611 21.3809 18.912 21.0696 18.912H13.2365C12.984 18.912 12.8002 18.6725 12.8656 18.4286L13.7792 15.0189C13.8467 14.7671 14.0749 14.592 14.3356 14.592H23.2564C23.5268 14.592 23.7622 14.4042 23.8101 14.138Z"
+      fill="#0055D2"
+    />
+  </svg>
+)
+
+export const getOgImageAlt = (renderMode: RenderMode) => `${SITE_NAME} - ${getDemo(renderMode).title}`
+
+export const renderDemoOgImage = (renderMode: RenderMode) => {
+  const demo = getDemo(renderMode)
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: 72,
+          backgroundColor: '#000000',
+          color: '#ffffff'
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center' }}>
+          <EdgeOneLogo size={64} />
+          <span style={{ marginLeft: 24, fontSize: 36, fontWeight: 600 }}>EdgeOne Pages</span>
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <div
+            style={{
+              display: 'flex',
+              alignSelf: 'flex-start',
+              padding: '12px 28px',
+              marginBottom: 32,
+              fontSize: 32,
+              borderRadius: 12,
+              border: `3px solid ${demo.color.hex}`,
+              // 20% alpha, matching the bg-*/20 badge in DemoLayout
+              backgroundColor: `${demo.color.hex}33`,
+              color: demo.color.hex
+            }}
+          >
+            {demo.label}
+          </div>
+          <span style={{ fontSize: 68, fontWeight: 700, lineHeight: 1.1 }}>{demo.title}</span>
+          <span style={{ marginTop: 24, fontSize: 32, color: '#9ca3af' }}>{demo.description}</span>
+        </div>
+
+        <span style={{ fontSize: 28, color: '#6b7280' }}>{SITE_NAME}</span>
+      </div>
+    ),
+    OG_IMAGE_SIZE
+  )
+}
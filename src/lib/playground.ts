@@ -0,0 +1,71 @@
+export const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'] as const
+
+export type HttpMethod = (typeof HTTP_METHODS)[number]
+
+export interface PlaygroundRequest {
+  method: HttpMethod
+  pathTemplate: string
+  pathParams: Record<string, string>
+  headers: string
+  body: string
+}
+
+export interface PlaygroundResponse {
+  status: number
+  statusText: string
+  headers: Array<[string, string]>
+  body: string
+  roundTripMs: number
+}
+
+const PATH_PARAM_PATTERN = /:([A-Za-z_][A-Za-z0-9_]*)/g
+
+// '/params/:id' -> ['id']
+export const getPathParamNames = (pathTemplate: string) =>
+  [...new Set([...pathTemplate.matchAll(PATH_PARAM_PATTERN)].map(match => match[1]))]
+
+export const buildPath = (pathTemplate: string, pathParams: Record<string, string>) =>
+  pathTemplate.replace(PATH_PARAM_PATTERN, (placeholder, name: string) =>
+    pathParams[name] ? encodeURIComponent(pathParams[name]) : placeholder
+  )
+
+// One "Name: value" pair per line, blank lines and lines without a colon are ignored
+export const parseHeaderLines = (text: string): Array<[string, string]> =>
+  text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.includes(':'))
+    .map(line => {
+      const separator = line.indexOf(':')
+      return [line.slice(0, separator).trim(), line.slice(separator + 1).trim()] as [string, string]
+    })
+    .filter(([name]) => name.length > 0)
+
+export const methodAllowsBody = (method: HttpMethod) => method !== 'GET' && method !== 'HEAD'
+
+export const formatResponseBody = (body: string) => {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2)
+  } catch {
+    return body
+  }
+}
+
+export const sendPlaygroundRequest = async (request: PlaygroundRequest): Promise<PlaygroundResponse> => {
+  const startedAt = performance.now()
+  const res = await fetch(buildPath(request.pathTemplate, request.pathParams), {
+    method: request.method,
+    headers: parseHeaderLines(request.headers),
+    body: methodAllowsBody(request.method) && request.body ? request.body : undefined,
+    cache: 'no-store'
+  })
+  const body = await res.text()
+
+  return {
+    status: res.status,
+    statusText: res.statusText,
+    headers: [...res.headers],
+    body,
+    roundTripMs: Math.round(performance.now() - startedAt)
+  }
+}
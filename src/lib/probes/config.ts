@@ -0,0 +1,18 @@
+// PROBE_TARGET=local swaps httpbin.org for the built-in /api/mock routes,
+// so the probe pages keep working on machines without outbound network access
+export type ProbeTarget = 'httpbin' | 'local'
+
+const HTTPBIN_ORIGIN = 'https://httpbin.org'
+
+export const getProbeTarget = (): ProbeTarget =>
+  process.env.PROBE_TARGET === 'local' ? 'local' : 'httpbin'
+
+const getLocalOrigin = () =>
+  process.env.PROBE_LOCAL_ORIGIN || `http://localhost:${process.env.PORT || 3000}`
+
+// Resolves an httpbin path such as `/delay/2` against the configured target
+export const httpbinUrl = (path: string) =>
+  getProbeTarget() === 'local'
+    // trailingSlash is enabled, so request the canonical URL and skip the redirect
+    ? `${getLocalOrigin()}/api/mock${path}/`
+    : `${HTTPBIN_ORIGIN}${path}`
@@ -0,0 +1,26 @@
+export { runProbes, startProbes } from './runner'
+export { getSSRProbes, getISRProbes, probeSuites, ISR_PROBE_TAG } from './suites'
+export type { ProbeSuiteName } from './suites'
+export { classifyProxy, getFetchErrorType } from './proxy'
+export type { FetchErrorType, ProxyClassification, ProxySignals, ProxyVerdict } from './proxy'
+export { getProbeTarget, httpbinUrl } from './config'
+export type { ProbeTarget } from './config'
+export {
+  createReport,
+  formatReport,
+  REPORT_CONTENT_TYPES,
+  REPORT_FILE_EXTENSIONS,
+  REPORT_FORMATS
+} from './report'
+export type { ProbeReport, ReportFormat } from './report'
+export type {
+  AbortReason,
+  PendingProbe,
+  ProbeDefinition,
+  ProbeExpectation,
+  ProbeResult,
+  ProbeStatus,
+  ProbeSuite,
+  RetryPolicy,
+  RunProbesOptions
+} from './types'
@@ -0,0 +1,89 @@
+import type { AbortReason } from './types'
+
+export type ProxyVerdict = 'DIRECT' | 'PROXIED' | 'PROXY_FAILED' | 'UNKNOWN'
+
+export type FetchErrorType = 'dns' | 'connection' | 'timeout' | 'budget' | 'other'
+
+export interface ProxyClassification {
+  verdict: ProxyVerdict
+  evidence: string[]
+}
+
+export interface ProxySignals {
+  // Present only when a response came back
+  headers?: Headers
+  error?: unknown
+  errorType?: FetchErrorType
+  durationMs: number
+}
+
+// Set by the EdgeOne fetch proxy on responses it relayed
+const PROXY_HEADER = 'oe-proxy-used'
+
+// Recorded as evidence only, they never decide the verdict on their own
+const SUPPORTING_HEADERS = ['via', 'eo-log-uuid', 'eo-cache-status']
+
+// A direct fetch that fails over to the proxy usually pays for the failed attempt first
+const SLOW_RESPONSE_MS = 1500
+
+const FALSY_HEADER_VALUES = ['false', '0', 'no', 'off']
+
+const DNS_ERROR_CODES = ['ENOTFOUND', 'EAI_AGAIN', 'EAI_NONAME']
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'EHOSTUNREACH', 'ENETUNREACH', 'EPIPE', 'UND_ERR_SOCKET']
+
+export const getFetchErrorType = (error: unknown, abortReason?: AbortReason): FetchErrorType => {
+  if (abortReason) return abortReason
+  const code = (error as { cause?: { code?: string } })?.cause?.code
+  if (code && DNS_ERROR_CODES.includes(code)) return 'dns'
+  if (code && (CONNECTION_ERROR_CODES.includes(code) || code.startsWith('UND_ERR_CONNECT'))) return 'connection'
+  if (code === 'UND_ERR_HEADERS_TIMEOUT' || code === 'ETIMEDOUT') return 'timeout'
+  return 'other'
+}
+
+const describeError = (error: unknown) => {
+  const cause = (error as { cause?: { code?: string; message?: string } })?.cause
+  const message = error instanceof Error ? error.message : String(error)
+  return cause?.code ? `${message} (${cause.code})` : message
+}
+
+export function classifyProxy({ headers, error, errorType, durationMs }: ProxySignals): ProxyClassification {
+  const evidence: string[] = []
+
+  if (!headers) {
+    evidence.push(`No response after ${durationMs}ms: ${describeError(error)}`)
+
+    switch (errorType) {
+      case 'budget':
+        evidence.push('Aborted by the render budget, so the proxy never got a chance to answer')
+        return { verdict: 'UNKNOWN', evidence }
+      case 'dns':
+      case 'connection':
+      case 'timeout':
+        evidence.push(`A ${errorType} failure is what the fetch proxy should recover from, yet no proxied response arrived`)
+        return { verdict: 'PROXY_FAILED', evidence }
+      default:
+        evidence.push('The error does not indicate whether a proxy was involved')
+        return { verdict: 'UNKNOWN', evidence }
+    }
+  }
+
+  const proxyHeader = headers.get(PROXY_HEADER)
+  for (const name of SUPPORTING_HEADERS) {
+    const value = headers.get(name)
+    if (value) evidence.push(`${name}: ${value}`)
+  }
+
+  if (proxyHeader && !FALSY_HEADER_VALUES.includes(proxyHeader.toLowerCase())) {
+    evidence.unshift(`${PROXY_HEADER}: ${proxyHeader}`)
+    if (durationMs >= SLOW_RESPONSE_MS) {
+      evidence.push(`Took ${durationMs}ms, consistent with a failed direct attempt before the proxy`)
+    }
+    return { verdict: 'PROXIED', evidence }
+  }
+
+  evidence.unshift(proxyHeader ? `${PROXY_HEADER}: ${proxyHeader}` : `${PROXY_HEADER} header absent`)
+  if (durationMs >= SLOW_RESPONSE_MS) {
+    evidence.push(`Took ${durationMs}ms, slow for a direct request but nothing marks it as proxied`)
+  }
+  return { verdict: 'DIRECT', evidence }
+}
@@ -0,0 +1,119 @@
+import type { ProbeResult } from './types'
+
+export type ReportFormat = 'json' | 'csv' | 'junit'
+
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'csv', 'junit']
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  junit: 'application/xml; charset=utf-8'
+}
+
+export const REPORT_FILE_EXTENSIONS: Record<ReportFormat, string> = {
+  json: 'json',
+  csv: 'csv',
+  junit: 'xml'
+}
+
+export interface ProbeReport {
+  suite: string
+  target: string
+  generatedAt: string
+  durationMs: number
+  total: number
+  passed: number
+  failed: number
+  ok: boolean
+  results: ProbeResult[]
+}
+
+export function createReport(
+  suite: string,
+  target: string,
+  results: ProbeResult[],
+  durationMs: number
+): ProbeReport {
+  const passed = results.filter(result => result.expected).length
+
+  return {
+    suite,
+    target,
+    generatedAt: new Date().toISOString(),
+    durationMs,
+    total: results.length,
+    passed,
+    failed: results.length - passed,
+    ok: passed === results.length,
+    results
+  }
+}
+
+const CSV_COLUMNS: Record<string, (result: ProbeResult) => unknown> = {
+  test: result => result.test,
+  status: result => result.status,
+  expected: result => result.expected,
+  statusCode: result => result.statusCode,
+  durationMs: result => result.durationMs,
+  attempts: result => result.attempts,
+  abortReason: result => result.abortReason,
+  proxyVerdict: result => result.proxy.verdict,
+  proxyEvidence: result => result.proxy.evidence.join('; '),
+  errorType: result => result.errorType,
+  error: result => result.error,
+  data: result => result.data
+}
+
+const escapeCsv = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const toCsv = (report: ProbeReport) =>
+  [
+    Object.keys(CSV_COLUMNS).join(','),
+    ...report.results.map(result => Object.values(CSV_COLUMNS).map(column => escapeCsv(column(result))).join(','))
+  ].join('\r\n') + '\r\n'
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+
+const seconds = (ms: number) => (ms / 1000).toFixed(3)
+
+export const toJUnit = (report: ProbeReport) => {
+  const testcases = report.results.map(result => {
+    const open = `    <testcase classname="fetch-proxy.${escapeXml(report.suite)}" name="${escapeXml(result.test)}" time="${seconds(result.durationMs)}"`
+    if (result.expected) return `${open} />`
+
+    const message = result.error || `Unexpected status ${result.status}`
+    return [
+      `${open}>`,
+      `      <failure type="${result.status}" message="${escapeXml(message)}">${escapeXml(JSON.stringify(result, null, 2))}</failure>`,
+      '    </testcase>'
+    ].join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="fetch-proxy" tests="${report.total}" failures="${report.failed}" time="${seconds(report.durationMs)}">`,
+    `  <testsuite name="${escapeXml(report.suite)}" tests="${report.total}" failures="${report.failed}" time="${seconds(report.durationMs)}" timestamp="${report.generatedAt}">`,
+    `    <properties><property name="target" value="${escapeXml(report.target)}" /></properties>`,
+    ...testcases,
+    '  </testsuite>',
+    '</testsuites>',
+    ''
+  ].join('\n')
+}
+
+export const formatReport = (report: ProbeReport, format: ReportFormat) => {
+  switch (format) {
+    case 'csv': return toCsv(report)
+    case 'junit': return toJUnit(report)
+    default: return JSON.stringify(report, null, 2)
+  }
+}
@@ -0,0 +1,199 @@
+import { classifyProxy, getFetchErrorType } from './proxy'
+import type {
+  AbortReason,
+  PendingProbe,
+  ProbeDefinition,
+  ProbeExpectation,
+  ProbeResult,
+  RetryPolicy,
+  RunProbesOptions
+} from './types'
+
+const DEFAULT_CONCURRENCY = 4
+const DEFAULT_BACKOFF_MS = 200
+const DEFAULT_BACKOFF_FACTOR = 2
+
+type ProbeOutcome = Omit<ProbeResult, 'test' | 'expected' | 'durationMs' | 'attempts' | 'cacheInfo'>
+
+const BUDGET_ERROR = 'Render budget exhausted before the probe finished'
+
+const budgetOutcome = (durationMs: number): ProbeOutcome => ({
+  status: 'TIMEOUT',
+  abortReason: 'budget',
+  error: BUDGET_ERROR,
+  errorType: 'budget',
+  proxy: classifyProxy({ error: BUDGET_ERROR, errorType: 'budget', durationMs })
+})
+
+const meetsExpectation = (expect: ProbeExpectation, outcome: ProbeOutcome) => {
+  switch (expect) {
+    case 'success': return outcome.status === 'SUCCESS'
+    case 'http_error': return outcome.status === 'HTTP_ERROR'
+    // A probe that hits its own deadline still failed to connect, which is what we expect here
+    case 'network_error': return outcome.status === 'EXPECTED_ERROR' || outcome.abortReason === 'timeout'
+  }
+}
+
+const shouldRetry = (probe: ProbeDefinition, outcome: ProbeOutcome) => {
+  if (meetsExpectation(probe.expect, outcome) || outcome.abortReason === 'budget') return false
+  return outcome.status === 'NETWORK_ERROR' ||
+    outcome.status === 'TIMEOUT' ||
+    (outcome.status === 'HTTP_ERROR' && (outcome.statusCode ?? 0) >= 500)
+}
+
+const backoffDelay = (retry: RetryPolicy, attempt: number) =>
+  (retry.backoffMs ?? DEFAULT_BACKOFF_MS) * (retry.factor ?? DEFAULT_BACKOFF_FACTOR) ** (attempt - 1)
+
+// Resolves early when the signal aborts so a backoff never outlives the budget
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms)
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer)
+    resolve()
+  }, { once: true })
+})
+
+const buildRequestInit = (probe: ProbeDefinition): RequestInit => {
+  const headers: Record<string, string> = { ...probe.headers }
+  let body: string | undefined
+
+  if (probe.body !== undefined) {
+    body = JSON.stringify(probe.body)
+    headers['Content-Type'] ??= 'application/json'
+  }
+
+  return {
+    method: probe.method ?? 'GET',
+    headers,
+    body,
+    cache: probe.cache,
+    next: probe.next
+  }
+}
+
+async function attemptProbe(probe: ProbeDefinition, budget?: AbortSignal): Promise<ProbeOutcome> {
+  const startedAt = performance.now()
+  const elapsed = () => Math.round(performance.now() - startedAt)
+  const controller = new AbortController()
+  const abort = (reason: AbortReason) => controller.abort(reason)
+  const onBudgetExhausted = () => abort('budget')
+
+  const timer = probe.timeoutMs ? setTimeout(() => abort('timeout'), probe.timeoutMs) : undefined
+  if (budget?.aborted) abort('budget')
+  budget?.addEventListener('abort', onBudgetExhausted, { once: true })
+
+  try {
+    const response = await fetch(probe.url, { ...buildRequestInit(probe), signal: controller.signal })
+    const statusCode = response.status
+    // Classified as soon as the headers arrive, before reading the body adds to the timing
+    const proxy = classifyProxy({ headers: response.headers, durationMs: elapsed() })
+
+    if (probe.expect === 'network_error') {
+      return { status: 'UNEXPECTED_SUCCESS', statusCode, proxy }
+    }
+
+    if (!response.ok) {
+      return { status: 'HTTP_ERROR', statusCode, proxy, error: `HTTP ${statusCode}` }
+    }
+
+    // Always consume the body so the connection is released
+    const data = probe.summarize ? probe.summarize(await response.json()) : (await response.text(), undefined)
+    return { status: 'SUCCESS', statusCode, proxy, data }
+  } catch (error: unknown) {
+    const abortReason = controller.signal.aborted ? controller.signal.reason as AbortReason : undefined
+    if (abortReason === 'budget') return budgetOutcome(elapsed())
+
+    const errorType = getFetchErrorType(error, abortReason)
+    const proxy = classifyProxy({ error, errorType, durationMs: elapsed() })
+
+    if (abortReason === 'timeout') {
+      return { status: 'TIMEOUT', abortReason, error: `Timed out after ${probe.timeoutMs}ms`, errorType, proxy }
+    }
+
+    return {
+      status: probe.expect === 'network_error' ? 'EXPECTED_ERROR' : 'NETWORK_ERROR',
+      error: error instanceof Error ? error.message : String(error),
+      errorType,
+      proxy
+    }
+  } finally {
+    clearTimeout(timer)
+    budget?.removeEventListener('abort', onBudgetExhausted)
+  }
+}
+
+async function runProbe(probe: ProbeDefinition, budget?: AbortSignal): Promise<ProbeResult> {
+  const startedAt = performance.now()
+  const maxAttempts = 1 + (probe.retry?.retries ?? 0)
+
+  let attempts = 0
+  let outcome: ProbeOutcome = budgetOutcome(0)
+
+  while (!budget?.aborted) {
+    attempts++
+    outcome = await attemptProbe(probe, budget)
+
+    if (attempts >= maxAttempts || !probe.retry || !shouldRetry(probe, outcome)) break
+
+    await sleep(backoffDelay(probe.retry, attempts), budget)
+    if (budget?.aborted) outcome = budgetOutcome(Math.round(performance.now() - startedAt))
+  }
+
+  return {
+    test: probe.name,
+    ...outcome,
+    expected: meetsExpectation(probe.expect, outcome),
+    durationMs: Math.round(performance.now() - startedAt),
+    attempts,
+    cacheInfo: probe.cacheInfo
+  }
+}
+
+// Hands each finished task's slot straight to the next queued one
+const createLimiter = (concurrency: number) => {
+  let active = 0
+  const queue: Array<() => void> = []
+
+  const release = () => {
+    const next = queue.shift()
+    if (next) next()
+    else active--
+  }
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= concurrency) await new Promise<void>(resolve => queue.push(resolve))
+    else active++
+
+    try {
+      return await task()
+    } finally {
+      release()
+    }
+  }
+}
+
+// Starts every probe with at most `concurrency` requests in flight and returns one
+// promise per probe, so callers can render each result as soon as it settles
+export function startProbes(
+  probes: ProbeDefinition[],
+  { concurrency = DEFAULT_CONCURRENCY, budgetMs }: RunProbesOptions = {}
+): PendingProbe[] {
+  const budget = budgetMs ? new AbortController() : undefined
+  const budgetTimer = budget ? setTimeout(() => budget.abort(), budgetMs) : undefined
+  const limit = createLimiter(Math.max(1, concurrency))
+
+  const pending = probes.map(probe => ({
+    name: probe.name,
+    result: limit(() => runProbe(probe, budget?.signal))
+  }))
+
+  // runProbe never rejects, so this only fires once everything has settled
+  Promise.all(pending.map(({ result }) => result)).finally(() => clearTimeout(budgetTimer))
+
+  return pending
+}
+
+// Same as startProbes but waits for every result, keeping the declared order
+export async function runProbes(probes: ProbeDefinition[], options?: RunProbesOptions): Promise<ProbeResult[]> {
+  return Promise.all(startProbes(probes, options).map(({ result }) => result))
+}
@@ -0,0 +1,104 @@
+import { httpbinUrl } from './config'
+import type { ProbeDefinition, ProbeSuite } from './types'
+
+// Built per call so URLs follow the current PROBE_TARGET and bodies carry a fresh timestamp
+export const getSSRProbes = (): ProbeDefinition[] => [
+  {
+    // Normal successful fetch (should use proxy if needed)
+    name: 'Normal Fetch',
+    url: httpbinUrl('/json'),
+    headers: { 'User-Agent': 'NextJS-SSR-Test' },
+    expect: 'success',
+    timeoutMs: 5000,
+    retry: { retries: 2 },
+    summarize: (body) => JSON.stringify(body).substring(0, 100) + '...'
+  },
+  {
+    // Slow response (should trigger proxy fallback)
+    name: 'Timeout Test',
+    url: httpbinUrl('/delay/2'),
+    headers: { 'User-Agent': 'NextJS-SSR-Timeout-Test' },
+    expect: 'success',
+    timeoutMs: 4000,
+    summarize: () => 'Delayed response received'
+  },
+  {
+    // Non-existent domain (proxy will attempt, request must still fail)
+    name: 'Non-existent Domain',
+    url: 'https://non-existent-domain-12345.com/api/test',
+    expect: 'network_error',
+    // DNS resolution for unknown hosts can hang, so never let it block the render
+    timeoutMs: 3000
+  },
+  {
+    // POST request with body (proxy should preserve body)
+    name: 'POST Request',
+    url: httpbinUrl('/post'),
+    method: 'POST',
+    headers: { 'User-Agent': 'NextJS-SSR-POST-Test' },
+    body: {
+      test: 'SSR Fetch Proxy Test',
+      timestamp: Date.now(),
+      source: 'NextJS SSR Page'
+    },
+    expect: 'success',
+    // Not idempotent, so no retry
+    timeoutMs: 5000,
+    summarize: (body) => `Received: ${(body as { json?: { test?: string } }).json?.test || 'POST data'}`
+  }
+]
+
+// Lets /api/revalidate refresh every ISR probe response with a single revalidateTag call
+export const ISR_PROBE_TAG = 'isr-probes'
+
+export const getISRProbes = (): ProbeDefinition[] => [
+  {
+    // Cached fetch with ISR (should respect cache but test proxy on cache miss)
+    name: 'ISR Cached Fetch',
+    url: httpbinUrl('/uuid'),
+    next: { revalidate: 10, tags: [ISR_PROBE_TAG] },
+    expect: 'success',
+    timeoutMs: 5000,
+    retry: { retries: 2 },
+    cacheInfo: 'Cached with ISR revalidation',
+    summarize: (body) => (body as { uuid: string }).uuid
+  },
+  {
+    // No-cache fetch (should always test proxy behavior)
+    name: 'No-Cache Fetch',
+    url: httpbinUrl('/ip'),
+    cache: 'no-store',
+    expect: 'success',
+    timeoutMs: 5000,
+    retry: { retries: 2 },
+    cacheInfo: 'No cache - fresh request',
+    summarize: (body) => (body as { origin: string }).origin
+  },
+  {
+    // Slow endpoint (should trigger proxy fallback)
+    name: 'Slow Endpoint',
+    url: httpbinUrl('/delay/1'),
+    next: { revalidate: 10, tags: [ISR_PROBE_TAG] },
+    expect: 'success',
+    timeoutMs: 4000,
+    cacheInfo: 'Cached after successful proxy request',
+    summarize: () => 'Delayed response received'
+  },
+  {
+    // Error endpoint (test error handling with caching)
+    name: 'Error Endpoint',
+    url: httpbinUrl('/status/500'),
+    next: { revalidate: 5, tags: [ISR_PROBE_TAG] },
+    expect: 'http_error',
+    timeoutMs: 5000,
+    cacheInfo: 'Error responses may not be cached'
+  }
+]
+
+// Shared by the demo pages and /api/diagnostics so both run identical probes
+export const probeSuites = {
+  ssr: { name: 'ssr', getProbes: getSSRProbes, budgetMs: 8000 },
+  isr: { name: 'isr', getProbes: getISRProbes, budgetMs: 10000 }
+} satisfies Record<string, ProbeSuite>
+
+export type ProbeSuiteName = keyof typeof probeSuites
@@ -0,0 +1,70 @@
+import type { FetchErrorType, ProxyClassification } from './proxy'
+
+export type ProbeStatus =
+  | 'SUCCESS'
+  | 'HTTP_ERROR'
+  | 'NETWORK_ERROR'
+  | 'EXPECTED_ERROR'
+  | 'UNEXPECTED_SUCCESS'
+  | 'TIMEOUT'
+
+// `timeout` is the probe's own deadline, `budget` is the page-level render budget running out
+export type AbortReason = 'timeout' | 'budget'
+
+// What a probe should observe when the fetch proxy behaves correctly
+export type ProbeExpectation = 'success' | 'http_error' | 'network_error'
+
+export interface RetryPolicy {
+  retries: number
+  backoffMs?: number
+  factor?: number
+}
+
+export interface ProbeDefinition {
+  name: string
+  url: string
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+  headers?: Record<string, string>
+  body?: unknown
+  cache?: RequestCache
+  next?: NextFetchRequestConfig
+  expect: ProbeExpectation
+  timeoutMs?: number
+  retry?: RetryPolicy
+  cacheInfo?: string
+  // Turns the parsed JSON body into the short string shown on the result card
+  summarize?: (body: unknown) => string
+}
+
+export interface ProbeResult {
+  test: string
+  status: ProbeStatus
+  expected: boolean
+  durationMs: number
+  attempts: number
+  abortReason?: AbortReason
+  proxy: ProxyClassification
+  statusCode?: number
+  error?: string
+  errorType?: FetchErrorType
+  data?: string
+  cacheInfo?: string
+}
+
+export interface ProbeSuite {
+  name: string
+  getProbes: () => ProbeDefinition[]
+  budgetMs: number
+}
+
+// A probe that has been started but may not have settled yet
+export interface PendingProbe {
+  name: string
+  result: Promise<ProbeResult>
+}
+
+export interface RunProbesOptions {
+  concurrency?: number
+  // Once exhausted, in-flight and queued probes are reported as TIMEOUT
+  budgetMs?: number
+}
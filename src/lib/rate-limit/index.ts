@@ -0,0 +1,15 @@
+export {
+  API_KEY_HEADER,
+  checkRateLimit,
+  consumeToken,
+  getRateLimitApiKeys,
+  getRateLimitHeaders,
+  getRateLimitKey,
+  getRateLimitStore,
+  rateLimit
+} from './limiter'
+export { createMemoryStore } from './memory-store'
+export { createKvStore } from './kv-store'
+export type { KvNamespace } from './kv-store'
+export { findRateLimitRule, rateLimitRules } from './rules'
+export type { RateLimitKeyStrategy, RateLimitResult, RateLimitRule, RateLimitStore, TokenBucketState } from './types'
@@ -0,0 +1,31 @@
+import { sha256Hex } from '@/lib/security'
+import type { RateLimitStore, TokenBucketState } from './types'
+
+// The part of an EdgeOne Pages KV namespace binding this store uses
+export interface KvNamespace {
+  get: (key: string) => Promise<string | null>
+  put: (key: string, value: string) => Promise<void>
+}
+
+interface StoredBucket extends TokenBucketState {
+  expiresAt: number
+}
+
+// KV keys only allow letters, digits and underscores, so rate limit keys are stored under their hash
+const toKvKey = async (key: string) => `rate_limit_${await sha256Hex(key)}`
+
+// Shares buckets across instances and regions. KV writes are eventually consistent,
+// so limits are approximate when the same client hits several edge nodes at once.
+export const createKvStore = (namespace: KvNamespace): RateLimitStore => ({
+  get: async key => {
+    const value = await namespace.get(await toKvKey(key))
+    if (!value) return null
+
+    const { tokens, updatedAt, expiresAt } = JSON.parse(value) as StoredBucket
+    return expiresAt > Date.now() ? { tokens, updatedAt } : null
+  },
+  set: async (key, state, ttlMs) => {
+    const stored: StoredBucket = { ...state, expiresAt: Date.now() + ttlMs }
+    await namespace.put(await toKvKey(key), JSON.stringify(stored))
+  }
+})
@@ -0,0 +1,62 @@
+import { NextRequest } from 'next/server'
+import { describe, expect, it } from 'vitest'
+import { consumeToken, getRateLimitHeaders, getRateLimitKey } from './limiter'
+import type { RateLimitRule } from './types'
+
+// 10 tokens refilling at one per second
+const rule: RateLimitRule = { id: 'test', path: '/api/test/', limit: 10, windowSeconds: 10, keyBy: 'apiKey' }
+
+const createRequest = (headers: Record<string, string>) =>
+  new NextRequest('http://localhost/api/test/', { headers })
+
+describe('consumeToken', () => {
+  it('starts with a full bucket', () => {
+    const result = consumeToken(null, rule, 0)
+
+    expect(result).toMatchObject({ allowed: true, remaining: 9, resetSeconds: 1, retryAfterSeconds: 0 })
+    expect(result.state).toEqual({ tokens: 9, updatedAt: 0 })
+  })
+
+  it('refills for the time since the last update, up to the limit', () => {
+    expect(consumeToken({ tokens: 0, updatedAt: 0 }, rule, 2500).state.tokens).toBeCloseTo(1.5)
+    expect(consumeToken({ tokens: 5, updatedAt: 0 }, rule, 60_000).remaining).toBe(9)
+  })
+
+  it('denies an empty bucket with a Retry-After until the next token', () => {
+    const result = consumeToken({ tokens: 0.25, updatedAt: 0 }, rule, 0)
+
+    expect(result).toMatchObject({ allowed: false, remaining: 0, retryAfterSeconds: 1 })
+    expect(result.state.tokens).toBe(0.25)
+    expect(getRateLimitHeaders({ rule, ...result })).toMatchObject({
+      'RateLimit-Limit': '10',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Policy': '10;w=10',
+      'Retry-After': '1'
+    })
+  })
+})
+
+describe('getRateLimitKey', () => {
+  it('gives listed API keys a bucket of their own', async () => {
+    const key = await getRateLimitKey(rule, createRequest({ 'x-api-key': 'listed', 'eo-connecting-ip': '203.0.113.7' }), ['listed'])
+
+    expect(key).toMatch(/^test:key:[0-9a-f]{64}$/)
+    expect(key).not.toContain('listed')
+  })
+
+  it('falls back to the IP for API keys that are not listed', async () => {
+    const key = await getRateLimitKey(rule, createRequest({ 'x-api-key': 'random', 'eo-connecting-ip': '203.0.113.7' }), ['listed'])
+
+    expect(key).toBe('test:ip:203.0.113.7')
+  })
+
+  it('uses the last x-forwarded-for hop without eo-connecting-ip', async () => {
+    const key = await getRateLimitKey(rule, createRequest({ 'x-forwarded-for': '10.0.0.1, 198.51.100.2' }), [])
+
+    expect(key).toBe('test:ip:198.51.100.2')
+  })
+
+  it('shares one bucket per route for keyBy route', async () => {
+    expect(await getRateLimitKey({ ...rule, keyBy: 'route' }, createRequest({}), [])).toBe('test:route')
+  })
+})
@@ -0,0 +1,97 @@
+import type { NextRequest } from 'next/server'
+import { safeEqual, sha256Hex } from '@/lib/security'
+import { createKvStore, type KvNamespace } from './kv-store'
+import { createMemoryStore } from './memory-store'
+import { findRateLimitRule } from './rules'
+import type { RateLimitResult, RateLimitRule, RateLimitStore, TokenBucketState } from './types'
+
+export const API_KEY_HEADER = 'x-api-key'
+
+// Refills the bucket for the time since its last update, then tries to take one token out of it
+export const consumeToken = (state: TokenBucketState | null, rule: RateLimitRule, now = Date.now()) => {
+  const refillPerMs = rule.limit / (rule.windowSeconds * 1000)
+  const available = state
+    ? Math.min(rule.limit, state.tokens + Math.max(now - state.updatedAt, 0) * refillPerMs)
+    : rule.limit
+  const allowed = available >= 1
+  const tokens = allowed ? available - 1 : available
+
+  return {
+    state: { tokens, updatedAt: now },
+    allowed,
+    remaining: Math.floor(tokens),
+    resetSeconds: Math.ceil((rule.limit - tokens) / refillPerMs / 1000),
+    retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs / 1000)
+  }
+}
+
+export const checkRateLimit = async (
+  store: RateLimitStore,
+  rule: RateLimitRule,
+  key: string,
+  now = Date.now()
+): Promise<RateLimitResult> => {
+  const { state, ...result } = consumeToken(await store.get(key), rule, now)
+  await store.set(key, state, rule.windowSeconds * 1000)
+  return { rule, ...result }
+}
+
+// eo-connecting-ip is set by EdgeOne itself. Without it only the last x-forwarded-for hop is used,
+// the one the nearest proxy appended; earlier hops come from the client and would give it a fresh bucket.
+const getRateLimitIp = (request: NextRequest) =>
+  request.headers.get('eo-connecting-ip') ||
+  request.headers.get('x-forwarded-for')?.split(',').pop()?.trim() ||
+  'unknown'
+
+// RATE_LIMIT_API_KEYS is a comma separated list of the keys that get a bucket of their own
+export const getRateLimitApiKeys = (env: Record<string, string | undefined> = process.env) =>
+  (env.RATE_LIMIT_API_KEYS ?? '').split(',').map(key => key.trim()).filter(Boolean)
+
+export const getRateLimitKey = async (rule: RateLimitRule, request: NextRequest, apiKeys = getRateLimitApiKeys()) => {
+  if (rule.keyBy === 'route') return `${rule.id}:route`
+
+  // Only configured keys count, otherwise a random key per request would bypass the limit
+  const apiKey = request.headers.get(API_KEY_HEADER)
+  if (rule.keyBy === 'apiKey' && apiKey && apiKeys.some(key => safeEqual(key, apiKey))) {
+    // API keys are hashed so they never end up in a store in plain text
+    return `${rule.id}:key:${await sha256Hex(apiKey)}`
+  }
+  return `${rule.id}:ip:${getRateLimitIp(request)}`
+}
+
+export const getRateLimitHeaders = ({ rule, remaining, resetSeconds, retryAfterSeconds, allowed }: RateLimitResult) => {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(rule.limit),
+    'RateLimit-Remaining': String(remaining),
+    'RateLimit-Reset': String(resetSeconds),
+    'RateLimit-Policy': `${rule.limit};w=${rule.windowSeconds}`
+  }
+  if (!allowed) headers['Retry-After'] = String(retryAfterSeconds)
+  return headers
+}
+
+let memoryStore: RateLimitStore | undefined
+
+// RATE_LIMIT_KV names the global EdgeOne KV binding to share buckets across instances,
+// without it every instance counts on its own in memory
+export const getRateLimitStore = (): RateLimitStore => {
+  const binding = process.env.RATE_LIMIT_KV
+  const namespace = binding ? (globalThis as Record<string, unknown>)[binding] : undefined
+  if (namespace) return createKvStore(namespace as KvNamespace)
+
+  memoryStore ??= createMemoryStore()
+  return memoryStore
+}
+
+// Null when no rule covers the request. A failing store lets the request through rather than taking the API down.
+export const rateLimit = async (request: NextRequest, store = getRateLimitStore()) => {
+  const rule = findRateLimitRule(request.nextUrl.pathname, request.method)
+  if (!rule) return null
+
+  try {
+    return await checkRateLimit(store, rule, await getRateLimitKey(rule, request))
+  } catch (error) {
+    console.error(`Rate limit store failed for rule "${rule.id}", allowing the request`, error)
+    return null
+  }
+}
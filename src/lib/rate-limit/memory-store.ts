@@ -0,0 +1,33 @@
+import type { RateLimitStore, TokenBucketState } from './types'
+
+const DEFAULT_MAX_ENTRIES = 10_000
+
+// Buckets live in the memory of one server instance, so each instance enforces its own limit
+export const createMemoryStore = ({ maxEntries = DEFAULT_MAX_ENTRIES } = {}): RateLimitStore => {
+  const buckets = new Map<string, { state: TokenBucketState; expiresAt: number }>()
+
+  const evict = (now: number) => {
+    for (const [key, entry] of buckets) {
+      if (entry.expiresAt <= now) buckets.delete(key)
+    }
+    // Still full: drop the least recently written buckets, Map iterates in insertion order
+    for (const key of buckets.keys()) {
+      if (buckets.size < maxEntries) break
+      buckets.delete(key)
+    }
+  }
+
+  return {
+    get: async key => {
+      const entry = buckets.get(key)
+      if (!entry || entry.expiresAt <= Date.now()) return null
+      return entry.state
+    },
+    set: async (key, state, ttlMs) => {
+      const now = Date.now()
+      buckets.delete(key)
+      if (buckets.size >= maxEntries) evict(now)
+      buckets.set(key, { state, expiresAt: now + ttlMs })
+    }
+  }
+}
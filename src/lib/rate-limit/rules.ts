@@ -0,0 +1,53 @@
+import type { RateLimitRule } from './types'
+
+// Evaluated top to bottom; the first matching rule applies and unmatched routes are not limited
+export const rateLimitRules: RateLimitRule[] = [
+  {
+    id: 'hello',
+    path: '/api/hello/',
+    // Leaves room for a full run of the /benchmark page
+    limit: 600,
+    windowSeconds: 60,
+    keyBy: 'ip'
+  },
+  {
+    id: 'edge',
+    path: '/api/edge/',
+    limit: 600,
+    windowSeconds: 60,
+    keyBy: 'ip'
+  },
+  {
+    id: 'diagnostics',
+    path: '/api/diagnostics/',
+    // Every call fans out into several outbound probe requests
+    limit: 10,
+    windowSeconds: 60,
+    keyBy: 'ip'
+  },
+  {
+    id: 'revalidate',
+    path: '/api/revalidate/',
+    methods: ['POST'],
+    limit: 10,
+    windowSeconds: 60,
+    keyBy: 'ip'
+  },
+  {
+    id: 'webhooks',
+    path: /^\/api\/webhooks\/[^/]+\/$/,
+    methods: ['POST'],
+    // CMS and git hosts deliver from changing IPs, so the provider route shares one bucket
+    limit: 60,
+    windowSeconds: 60,
+    keyBy: 'route'
+  }
+]
+
+const matchesPath = (pattern: RateLimitRule['path'], pathname: string) =>
+  typeof pattern === 'string' ? pathname.startsWith(pattern) : pattern.test(pathname)
+
+export const findRateLimitRule = (pathname: string, method: string, rules = rateLimitRules) => {
+  if (method === 'OPTIONS') return null
+  return rules.find(rule => matchesPath(rule.path, pathname) && (!rule.methods || rule.methods.includes(method))) ?? null
+}
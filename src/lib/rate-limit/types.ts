@@ -0,0 +1,40 @@
+// Token bucket of one client: `tokens` left as of `updatedAt` (epoch ms)
+export interface TokenBucketState {
+  tokens: number
+  updatedAt: number
+}
+
+// Where buckets live between requests. Implementations only need last-write-wins semantics,
+// two concurrent requests may both spend the same token, which is fine for a demo-grade limiter.
+export interface RateLimitStore {
+  get: (key: string) => Promise<TokenBucketState | null>
+  // ttlMs is how long the bucket matters, after that a missing bucket and a full one are the same
+  set: (key: string, state: TokenBucketState, ttlMs: number) => Promise<void>
+}
+
+// What a bucket is shared by: each client IP, each x-api-key listed in RATE_LIMIT_API_KEYS (falling back to the IP),
+// or everyone hitting the route
+export type RateLimitKeyStrategy = 'ip' | 'apiKey' | 'route'
+
+export interface RateLimitRule {
+  id: string
+  // Matched against the pathname; strings are prefixes, so /api/hello/ also covers nested paths
+  path: string | RegExp
+  // Methods the rule counts, all of them when omitted. OPTIONS preflights are never counted.
+  methods?: string[]
+  // Bucket size, i.e. how many requests a client may burst
+  limit: number
+  // Seconds it takes an empty bucket to refill completely
+  windowSeconds: number
+  keyBy: RateLimitKeyStrategy
+}
+
+export interface RateLimitResult {
+  rule: RateLimitRule
+  allowed: boolean
+  remaining: number
+  // Seconds until the bucket is full again
+  resetSeconds: number
+  // Seconds until the next request would be allowed, 0 when this one was
+  retryAfterSeconds: number
+}
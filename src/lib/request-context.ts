@@ -0,0 +1,6 @@
+import { headers } from 'next/headers'
+import { REQUEST_ID_HEADER } from './api/request-id'
+
+// Request ID assigned by src/middleware.ts, readable from server components, route handlers and server actions.
+// Calling it opts the route into dynamic rendering like any other headers() read.
+export const getCurrentRequestId = async () => (await headers()).get(REQUEST_ID_HEADER)
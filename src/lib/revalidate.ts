@@ -0,0 +1,25 @@
+import { revalidatePath, revalidateTag } from 'next/cache'
+import { safeEqual } from '@/lib/security'
+
+export interface RevalidationTargets {
+  paths?: string[]
+  tags?: string[]
+}
+
+// Shared by /api/revalidate and anything else that invalidates cached pages on demand
+export function applyRevalidation({ paths = [], tags = [] }: RevalidationTargets) {
+  paths.forEach(path => revalidatePath(path))
+  tags.forEach(tag => revalidateTag(tag))
+
+  return {
+    revalidated: paths.length + tags.length > 0,
+    paths,
+    tags,
+    now: new Date().toISOString()
+  }
+}
+
+export const isRevalidateSecretConfigured = () => Boolean(process.env.REVALIDATE_SECRET)
+
+export const isValidRevalidateSecret = (secret: string | null | undefined) =>
+  Boolean(secret && process.env.REVALIDATE_SECRET && safeEqual(secret, process.env.REVALIDATE_SECRET))
@@ -0,0 +1,17 @@
+// Compares two strings in time independent of where they first differ
+export function safeEqual(a: string, b: string) {
+  const length = Math.max(a.length, b.length)
+  let mismatch = a.length ^ b.length
+
+  for (let i = 0; i < length; i++) {
+    mismatch |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0)
+  }
+
+  return mismatch === 0
+}
+
+// Web Crypto digest, so it works in the edge runtime as well
+export async function sha256Hex(value: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
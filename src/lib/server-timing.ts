@@ -0,0 +1,90 @@
+// Server-Timing helpers for src/middleware.ts and the route handlers, browsers show the entries in devtools
+export interface ServerTimingEntry {
+  name: string
+  durationMs: number
+  description?: string
+}
+
+// Middleware response headers overwrite the route handler's, so on API routes
+// the middleware hands its entry over in this request header instead
+export const MIDDLEWARE_TIMING_HEADER = 'x-middleware-timing'
+
+// Streamed pages have sent their headers before render timings are known, so they write them
+// into an element with this attribute instead and the header inspector reads them from the body
+export const STREAMED_TIMING_ATTRIBUTE = 'data-server-timing'
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+// Metric names are HTTP tokens, e.g. a probe called "POST Request" becomes POST-Request
+const toMetricName = (name: string) => name.replace(/[^\w!#$%&'*+.^`|~-]+/g, '-')
+
+export const formatServerTiming = (entries: ServerTimingEntry[]) =>
+  entries
+    .map(({ name, durationMs, description }) =>
+      [toMetricName(name), `dur=${round(durationMs)}`, description && `desc="${description.replace(/["\\]/g, '')}"`]
+        .filter(Boolean)
+        .join(';'))
+    .join(', ')
+
+export const parseServerTiming = (header: string | null): ServerTimingEntry[] =>
+  (header ?? '')
+    .split(',')
+    .map(metric => metric.trim())
+    .filter(Boolean)
+    .map(metric => {
+      const [name, ...params] = metric.split(';').map(part => part.trim())
+      const values = Object.fromEntries(params.map(param => {
+        const [key, value = ''] = param.split('=')
+        return [key.toLowerCase(), value.replace(/^"|"$/g, '')]
+      }))
+      return { name, durationMs: Number(values.dur) || 0, ...(values.desc && { description: values.desc }) }
+    })
+
+export const createServerTiming = (initial: ServerTimingEntry[] = []) => {
+  const entries = [...initial]
+
+  const add = (name: string, durationMs: number, description?: string) => {
+    entries.push({ name, durationMs, description })
+  }
+
+  const measure = async <T>(name: string, work: () => T | Promise<T>, description?: string): Promise<T> => {
+    const startedAt = performance.now()
+    try {
+      return await work()
+    } finally {
+      add(name, performance.now() - startedAt, description)
+    }
+  }
+
+  return { entries, add, measure }
+}
+
+export type ServerTiming = ReturnType<typeof createServerTiming>
+
+const timings = new WeakMap<Request, ServerTiming>()
+
+// Timing collector of the current request, entries only reach the response inside withServerTiming
+export const getServerTiming = (request: Request) => {
+  let timing = timings.get(request)
+  if (!timing) {
+    timing = createServerTiming()
+    timings.set(request, timing)
+  }
+  return timing
+}
+
+// Adds the middleware entry, whatever the handler measured and a total to the response's Server-Timing header
+export const withServerTiming = <Args extends [Request, ...unknown[]]>(
+  handler: (...args: Args) => Response | Promise<Response>
+) => async (...args: Args): Promise<Response> => {
+  const [request] = args
+  const timing = createServerTiming(parseServerTiming(request.headers.get(MIDDLEWARE_TIMING_HEADER)))
+  timings.set(request, timing)
+
+  const startedAt = performance.now()
+  const response = await handler(...args)
+  timing.add('total', performance.now() - startedAt, 'Route handler')
+
+  response.headers.append('Server-Timing', formatServerTiming(timing.entries))
+  return response
+}
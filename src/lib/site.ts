@@ -0,0 +1,15 @@
+export const SITE_NAME = 'EdgeOne Pages Next.js Starter'
+export const SITE_TITLE = `${SITE_NAME} - Hybrid Rendering Demo`
+export const SITE_DESCRIPTION =
+  'Using Next.js to build high-performance, scalable Web applications on EdgeOne Pages. Demonstrating SSR, ISR, SSG, Node Functions, and Edge Functions.'
+
+const DEFAULT_SITE_URL = 'http://localhost:3000'
+
+// Public origin of the deployment, used for absolute URLs in the sitemap, robots.txt and metadata
+export const getSiteUrl = () => (process.env.NEXT_PUBLIC_SITE_URL || DEFAULT_SITE_URL).replace(/\/+$/, '')
+
+// Routes end with a slash because next.config.ts sets trailingSlash
+export const absoluteUrl = (path: string) => `${getSiteUrl()}${path === '/' ? '' : path.replace(/\/+$/, '')}/`
+
+// Stamped by next.config.ts when the app is built, falls back to server start in dev
+export const getBuildTime = () => new Date(process.env.BUILD_TIME || Date.now())
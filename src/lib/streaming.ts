@@ -0,0 +1,103 @@
+export interface StreamingLabConfig {
+  boundaries: number
+  // Total time until the deepest chunk of each boundary is ready
+  delays: number[]
+  depth: number
+  // Zero-based boundaries that throw instead of rendering, set with ?fail=1,3
+  fail: number[]
+}
+
+export interface ExpectedChunk {
+  id: string
+  boundary: number
+  level: number
+  expectedMs: number
+}
+
+type SearchParams = Record<string, string | string[] | undefined>
+
+export const STREAMING_LAB_LIMITS = {
+  maxBoundaries: 6,
+  maxDelayMs: 15000,
+  maxDepth: 4
+}
+
+const DEFAULT_DELAYS = [5000, 8000]
+// Spacing for boundaries that were requested without a delay of their own
+const DELAY_STEP_MS = 1000
+
+const CHUNK_MARK_PREFIX = 'streaming-lab'
+
+const first = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value)
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
+
+const parseInteger = (value: string | undefined) => {
+  const parsed = Number.parseInt(value ?? '', 10)
+  return Number.isNaN(parsed) ? null : parsed
+}
+
+export const parseStreamingLabConfig = (searchParams: SearchParams): StreamingLabConfig => {
+  const requestedDelays = (first(searchParams.delays) ?? '')
+    .split(',')
+    .map(value => parseInteger(value.trim()))
+    .filter((value): value is number => value !== null)
+  const delaySource = requestedDelays.length > 0 ? requestedDelays : DEFAULT_DELAYS
+
+  const boundaries = clamp(
+    parseInteger(first(searchParams.boundaries)) ?? delaySource.length,
+    1,
+    STREAMING_LAB_LIMITS.maxBoundaries
+  )
+  const depth = clamp(parseInteger(first(searchParams.depth)) ?? 1, 1, STREAMING_LAB_LIMITS.maxDepth)
+
+  const delays = Array.from({ length: boundaries }, (_, index) => {
+    const delay = delaySource[index] ?? delaySource[delaySource.length - 1] + (index - delaySource.length + 1) * DELAY_STEP_MS
+    return clamp(delay, 0, STREAMING_LAB_LIMITS.maxDelayMs)
+  })
+
+  const fail = [...new Set(
+    (first(searchParams.fail) ?? '')
+      .split(',')
+      .map(value => parseInteger(value.trim()))
+      .filter((value): value is number => value !== null && value >= 1 && value <= boundaries)
+      .map(value => value - 1)
+  )]
+
+  return { boundaries, delays, depth, fail }
+}
+
+export const toStreamingLabQuery = ({ boundaries, delays, depth, fail }: StreamingLabConfig) => {
+  const query = new URLSearchParams({ boundaries: String(boundaries), delays: delays.join(','), depth: String(depth) })
+  if (fail.length > 0) query.set('fail', fail.map(boundary => boundary + 1).join(','))
+  return query.toString()
+}
+
+// Each nesting level waits an equal share of its boundary's delay, so the deepest chunk lands at the full delay
+export const getLevelDelay = (delayMs: number, depth: number) => Math.round(delayMs / depth)
+
+export const getChunkId = (boundary: number, level: number) => `${boundary + 1}.${level}`
+
+// Failing boundaries never send their chunks, so they are left out of the timeline
+export const getExpectedChunks = ({ delays, depth, fail }: StreamingLabConfig): ExpectedChunk[] =>
+  delays
+    .flatMap((delayMs, boundary) =>
+      fail.includes(boundary)
+        ? []
+        : Array.from({ length: depth }, (_, index) => ({
+            id: getChunkId(boundary, index + 1),
+            boundary,
+            level: index + 1,
+            expectedMs: getLevelDelay(delayMs, depth) * (index + 1)
+          }))
+    )
+    .sort((a, b) => a.expectedMs - b.expectedMs)
+
+// The run ID keeps marks from an earlier visit in the same document apart from the current one
+export const getChunkMarkName = (runId: string, chunkId: string) => `${CHUNK_MARK_PREFIX}:${runId}:${chunkId}`
+
+export interface ChunkMarkDetail {
+  serverElapsedMs: number
+  // 'script' marks are set by the inline script as the HTML arrives, 'effect' marks only once React mounted the chunk
+  source: 'script' | 'effect'
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest'
+import { markDeliverySeen } from './deliveries'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// The seen deliveries live in module state, so every test uses its own IDs and later clocks than the one before
+describe('markDeliverySeen', () => {
+  it('rejects a delivery ID it has already seen', () => {
+    expect(markDeliverySeen('replay-1', 1_000)).toBe(true)
+    expect(markDeliverySeen('replay-1', 2_000)).toBe(false)
+    expect(markDeliverySeen('replay-2', 2_000)).toBe(true)
+  })
+
+  it('accepts a delivery ID again once its TTL has passed', () => {
+    expect(markDeliverySeen('expiring-1', 10_000)).toBe(true)
+    expect(markDeliverySeen('expiring-1', 10_000 + DAY_MS)).toBe(false)
+    expect(markDeliverySeen('expiring-1', 10_001 + DAY_MS)).toBe(true)
+  })
+})
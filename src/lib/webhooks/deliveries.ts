@@ -0,0 +1,19 @@
+// Delivery IDs seen recently by this instance. Signatures over the raw body never expire,
+// so this is what stops a captured delivery from being replayed later.
+const DELIVERY_TTL_MS = 24 * 60 * 60 * 1000
+const MAX_DELIVERIES = 1000
+
+const deliveries = new Map<string, number>()
+
+// Records the delivery and returns false when it was already seen within the TTL
+export const markDeliverySeen = (deliveryId: string, now = Date.now()) => {
+  for (const [id, seenAt] of deliveries) {
+    if (now - seenAt <= DELIVERY_TTL_MS && deliveries.size < MAX_DELIVERIES) break
+    // Map keeps insertion order, so expired or surplus entries are always at the front
+    deliveries.delete(id)
+  }
+
+  if (deliveries.has(deliveryId)) return false
+  deliveries.set(deliveryId, now)
+  return true
+}
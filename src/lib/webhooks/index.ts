@@ -0,0 +1,6 @@
+export { hmacSha256Hex, verifySignature, isWithinTolerance, DEFAULT_TOLERANCE_SECONDS } from './signature'
+export { webhookProviders, getWebhookEvent } from './providers'
+export type { DeliveryWebhookProvider, TimestampWebhookProvider, WebhookProvider } from './providers'
+export { markDeliverySeen } from './deliveries'
+export { webhookRules, resolveWebhookTargets } from './rules'
+export type { WebhookRule } from './rules'
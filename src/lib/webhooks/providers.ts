@@ -0,0 +1,49 @@
+interface BaseWebhookProvider {
+  // Environment variable holding the shared HMAC secret
+  secretEnv: string
+  signatureHeader: string
+  // Stripped from the signature header before comparing, e.g. `sha256=`
+  signaturePrefix?: string
+  // Where the event name comes from: a request header or a top-level payload field
+  eventHeader?: string
+  eventField?: string
+}
+
+// Signs `${timestamp}.${rawBody}`, deliveries whose timestamp is too far off are replays
+export interface TimestampWebhookProvider extends BaseWebhookProvider {
+  scheme: 'timestamp'
+  timestampHeader: string
+}
+
+// GitHub's scheme: signs the raw body only, a delivery ID that was already seen is a replay
+export interface DeliveryWebhookProvider extends BaseWebhookProvider {
+  scheme: 'delivery'
+  deliveryHeader: string
+}
+
+// Every provider sends the hex HMAC-SHA256 digest of what its scheme signs
+export type WebhookProvider = TimestampWebhookProvider | DeliveryWebhookProvider
+
+export const webhookProviders: Record<string, WebhookProvider> = {
+  cms: {
+    scheme: 'timestamp',
+    secretEnv: 'CMS_WEBHOOK_SECRET',
+    signatureHeader: 'x-cms-signature',
+    timestampHeader: 'x-cms-timestamp',
+    eventField: 'event'
+  },
+  git: {
+    scheme: 'delivery',
+    secretEnv: 'GIT_WEBHOOK_SECRET',
+    signatureHeader: 'x-hub-signature-256',
+    signaturePrefix: 'sha256=',
+    deliveryHeader: 'x-github-delivery',
+    eventHeader: 'x-github-event'
+  }
+}
+
+export const getWebhookEvent = (provider: WebhookProvider, headers: Headers, payload: Record<string, unknown>) => {
+  if (provider.eventHeader) return headers.get(provider.eventHeader) ?? ''
+  if (provider.eventField) return String(payload[provider.eventField] ?? '')
+  return ''
+}
@@ -0,0 +1,56 @@
+import { ISR_PROBE_TAG } from '@/lib/probes'
+import type { RevalidationTargets } from '@/lib/revalidate'
+
+type WebhookPayload = Record<string, unknown>
+
+export interface WebhookRule {
+  provider: string
+  event: string | RegExp
+  when?: (payload: WebhookPayload) => boolean
+  paths?: string[] | ((payload: WebhookPayload) => string[])
+  tags?: string[] | ((payload: WebhookPayload) => string[])
+}
+
+// Evaluated top to bottom; every matching rule contributes its paths and tags
+export const webhookRules: WebhookRule[] = [
+  {
+    provider: 'cms',
+    event: /^entry\.(publish|unpublish|update|delete)$/,
+    tags: [ISR_PROBE_TAG]
+  },
+  {
+    provider: 'cms',
+    event: 'entry.publish',
+    // Entries may name the page they belong to, otherwise fall back to the ISR demo
+    paths: payload => typeof payload.path === 'string' ? [payload.path] : ['/isr']
+  },
+  {
+    provider: 'git',
+    event: 'push',
+    when: payload => payload.ref === 'refs/heads/main',
+    paths: ['/', '/isr']
+  }
+]
+
+const matchesEvent = (pattern: string | RegExp, event: string) =>
+  typeof pattern === 'string' ? pattern === event : pattern.test(event)
+
+const resolve = (value: WebhookRule['paths'], payload: WebhookPayload) =>
+  typeof value === 'function' ? value(payload) : value ?? []
+
+export function resolveWebhookTargets(
+  provider: string,
+  event: string,
+  payload: WebhookPayload,
+  rules: WebhookRule[] = webhookRules
+): RevalidationTargets & { matchedRules: number } {
+  const matched = rules.filter(rule =>
+    rule.provider === provider && matchesEvent(rule.event, event) && (!rule.when || rule.when(payload))
+  )
+
+  return {
+    paths: [...new Set(matched.flatMap(rule => resolve(rule.paths, payload)))],
+    tags: [...new Set(matched.flatMap(rule => resolve(rule.tags, payload)))],
+    matchedRules: matched.length
+  }
+}
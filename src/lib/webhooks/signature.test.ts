@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_TOLERANCE_SECONDS, hmacSha256Hex, isWithinTolerance, verifySignature } from './signature'
+
+// RFC 4231 test case 2
+const SECRET = 'Jefe'
+const PAYLOAD = 'what do ya want for nothing?'
+const SIGNATURE = '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+
+describe('verifySignature', () => {
+  it('computes the HMAC-SHA256 hex digest', async () => {
+    expect(await hmacSha256Hex(SECRET, PAYLOAD)).toBe(SIGNATURE)
+  })
+
+  it('accepts the signature in either case', async () => {
+    expect(await verifySignature(SECRET, PAYLOAD, SIGNATURE)).toBe(true)
+    expect(await verifySignature(SECRET, PAYLOAD, SIGNATURE.toUpperCase())).toBe(true)
+  })
+
+  it('rejects another secret, a changed payload or a truncated signature', async () => {
+    expect(await verifySignature('other', PAYLOAD, SIGNATURE)).toBe(false)
+    expect(await verifySignature(SECRET, `${PAYLOAD} `, SIGNATURE)).toBe(false)
+    expect(await verifySignature(SECRET, PAYLOAD, SIGNATURE.slice(0, -2))).toBe(false)
+  })
+})
+
+describe('isWithinTolerance', () => {
+  const now = Math.floor(Date.now() / 1000)
+
+  it('accepts timestamps within the tolerance on either side', () => {
+    expect(isWithinTolerance(now)).toBe(true)
+    expect(isWithinTolerance(now - DEFAULT_TOLERANCE_SECONDS + 5)).toBe(true)
+    expect(isWithinTolerance(now + DEFAULT_TOLERANCE_SECONDS - 5)).toBe(true)
+  })
+
+  it('rejects old, future and invalid timestamps', () => {
+    expect(isWithinTolerance(now - DEFAULT_TOLERANCE_SECONDS - 5)).toBe(false)
+    expect(isWithinTolerance(now + 60, 30)).toBe(false)
+    expect(isWithinTolerance(NaN)).toBe(false)
+  })
+})
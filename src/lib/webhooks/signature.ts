@@ -0,0 +1,27 @@
+import { safeEqual } from '@/lib/security'
+
+const encoder = new TextEncoder()
+
+// Web Crypto only, so verification runs unchanged in the edge runtime
+export async function hmacSha256Hex(secret: string, payload: string) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload))
+
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export async function verifySignature(secret: string, payload: string, signature: string) {
+  return safeEqual(await hmacSha256Hex(secret, payload), signature.toLowerCase())
+}
+
+// Deliveries signed further than this from our clock are treated as replays
+export const DEFAULT_TOLERANCE_SECONDS = 300
+
+export const isWithinTolerance = (timestamp: number, toleranceSeconds = DEFAULT_TOLERANCE_SECONDS) =>
+  Number.isFinite(timestamp) && Math.abs(Date.now() / 1000 - timestamp) <= toleranceSeconds
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyCorsHeaders, createCorsPolicy, createPreflightResponse, isPreflightRequest } from '@/lib/api/cors'
+import { ApiError, createErrorResponse } from '@/lib/api/errors'
+import { getRequestId, REQUEST_ID_HEADER } from '@/lib/api/request-id'
+import { getRateLimitHeaders, rateLimit } from '@/lib/rate-limit'
+import { formatServerTiming, MIDDLEWARE_TIMING_HEADER } from '@/lib/server-timing'
+
+const corsPolicy = createCorsPolicy(process.env)
+
+// Assigns (or passes through) x-request-id on every request, answers CORS preflights and rate limits
+// the API routes configured in src/lib/rate-limit/rules.ts, and reports its own time in Server-Timing
+export async function middleware(request: NextRequest) {
+  const startedAt = performance.now()
+  const requestId = getRequestId(request)
+  const isApiRoute = request.nextUrl.pathname.startsWith('/api/')
+  if (isApiRoute && isPreflightRequest(request)) {
+    const response = createPreflightResponse(request, corsPolicy)
+    response.headers.set(REQUEST_ID_HEADER, requestId)
+    return response
+  }
+
+  const limit = isApiRoute ? await rateLimit(request) : null
+  const rateLimitHeaders = limit ? getRateLimitHeaders(limit) : {}
+
+  const timing = formatServerTiming([
+    { name: 'middleware', durationMs: performance.now() - startedAt, description: 'Middleware' }
+  ])
+
+  if (limit && !limit.allowed) {
+    const response = createErrorResponse(
+      new ApiError('RATE_LIMITED', `Too many requests, retry in ${limit.retryAfterSeconds}s`, {
+        details: { rule: limit.rule.id, limit: limit.rule.limit, windowSeconds: limit.rule.windowSeconds },
+        headers: rateLimitHeaders
+      }),
+      requestId
+    )
+    response.headers.set('Server-Timing', timing)
+    applyCorsHeaders(response.headers, request, corsPolicy)
+    return response
+  }
+
+  const requestHeaders = new Headers(request.headers)
+  requestHeaders.set(REQUEST_ID_HEADER, requestId)
+  // Route handlers merge this into their own Server-Timing header, see withServerTiming
+  if (isApiRoute) requestHeaders.set(MIDDLEWARE_TIMING_HEADER, timing)
+
+  const response = NextResponse.next({ request: { headers: requestHeaders } })
+  response.headers.set(REQUEST_ID_HEADER, requestId)
+  if (!isApiRoute) response.headers.set('Server-Timing', timing)
+  for (const [name, value] of Object.entries(rateLimitHeaders)) response.headers.set(name, value)
+  if (isApiRoute) applyCorsHeaders(response.headers, request, corsPolicy)
+  return response
+}
+
+export const config = {
+  // Static assets and image optimisation never reach a page or route handler
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)']
+}